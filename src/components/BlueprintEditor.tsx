@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LayoutGrid, Plus, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { BlueprintCell, Difficulty, EnhancedPDFChunk, ExamBlueprint, QuestionType } from '@/types';
+import {
+  createBlueprint,
+  createBlueprintCell,
+  deleteBlueprint,
+  getBlueprintTotal,
+  loadSavedBlueprints,
+  saveBlueprint,
+} from '@/lib/utils/blueprint-utils';
+import { formatPageRanges, mapTopicsToChunks } from '@/lib/utils/topic-utils';
+
+interface BlueprintEditorProps {
+  blueprint: ExamBlueprint;
+  topics: string[];
+  chunks: EnhancedPDFChunk[];
+  onChange: (blueprint: ExamBlueprint) => void;
+}
+
+const QUESTION_TYPE_OPTIONS: { value: QuestionType; label: string }[] = [
+  { value: 'mcq', label: 'Multiple Choice' },
+  { value: 'fillblank', label: 'Fill in the Blank' },
+  { value: 'truefalse', label: 'True/False' },
+];
+
+const DIFFICULTY_OPTIONS: { value: Difficulty; label: string }[] = [
+  { value: 'basic', label: 'Basic' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+];
+
+const BlueprintEditor = ({ blueprint, topics, chunks, onChange }: BlueprintEditorProps) => {
+  const [savedBlueprints, setSavedBlueprints] = useState<ExamBlueprint[]>(() => loadSavedBlueprints());
+  const { toast } = useToast();
+
+  // Pages each row's topic maps to in the current document
+  const cellPages = useMemo(
+    () => blueprint.cells.map(cell => {
+      if (!cell.topic.trim() || chunks.length === 0) return '';
+      return formatPageRanges(mapTopicsToChunks([cell.topic], chunks)[0].pageRanges) || 'No matching pages';
+    }),
+    [blueprint.cells, chunks]
+  );
+
+  const updateCell = (index: number, changes: Partial<BlueprintCell>) => {
+    onChange({
+      ...blueprint,
+      cells: blueprint.cells.map((cell, i) => (i === index ? { ...cell, ...changes } : cell)),
+    });
+  };
+
+  const handleAddCell = () => {
+    onChange({ ...blueprint, cells: [...blueprint.cells, createBlueprintCell(topics[0] ?? '')] });
+  };
+
+  const handleRemoveCell = (index: number) => {
+    onChange({ ...blueprint, cells: blueprint.cells.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = () => {
+    if (!blueprint.name.trim()) {
+      toast({
+        title: "Name required",
+        description: "Please give the blueprint a name before saving it.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSavedBlueprints(saveBlueprint(blueprint));
+    toast({ title: "Blueprint saved", description: `"${blueprint.name}" can be reused with any document.` });
+  };
+
+  const handleLoad = (id: string) => {
+    const saved = savedBlueprints.find(b => b.id === id);
+    if (saved) onChange(saved);
+  };
+
+  const handleDelete = () => {
+    setSavedBlueprints(deleteBlueprint(blueprint.id));
+    onChange(createBlueprint());
+  };
+
+  const isSaved = savedBlueprints.some(b => b.id === blueprint.id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <LayoutGrid className="w-5 h-5" />
+          <span>Exam Blueprint</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="blueprint-name">Blueprint Name</Label>
+            <Input
+              id="blueprint-name"
+              value={blueprint.name}
+              onChange={(e) => onChange({ ...blueprint, name: e.target.value })}
+              placeholder="e.g. Midterm - Chapters 1 to 4"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Saved Blueprints</Label>
+            <Select value={isSaved ? blueprint.id : undefined} onValueChange={handleLoad} disabled={savedBlueprints.length === 0}>
+              <SelectTrigger>
+                <SelectValue placeholder={savedBlueprints.length === 0 ? "No saved blueprints" : "Load a saved blueprint"} />
+              </SelectTrigger>
+              <SelectContent>
+                {savedBlueprints.map((saved) => (
+                  <SelectItem key={saved.id} value={saved.id}>
+                    {saved.name} ({getBlueprintTotal(saved)} questions)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Topic</TableHead>
+              <TableHead>Difficulty</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="w-24">Count</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {blueprint.cells.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                  No rows yet. Add a row for each topic, difficulty and question type you want in the exam.
+                </TableCell>
+              </TableRow>
+            )}
+            {blueprint.cells.map((cell, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Input
+                    list="blueprint-topics"
+                    value={cell.topic}
+                    onChange={(e) => updateCell(index, { topic: e.target.value })}
+                    placeholder="Topic or chapter"
+                  />
+                  {cellPages[index] && (
+                    <p className="text-xs text-muted-foreground mt-1">{cellPages[index]}</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Select value={cell.difficulty} onValueChange={(value) => updateCell(index, { difficulty: value as Difficulty })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DIFFICULTY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select value={cell.type} onValueChange={(value) => updateCell(index, { type: value as QuestionType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {QUESTION_TYPE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={20}
+                    value={cell.count}
+                    onChange={(e) => updateCell(index, { count: Math.max(0, Math.min(20, Number(e.target.value) || 0)) })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" onClick={() => handleRemoveCell(index)}>
+                    <Trash2 className="w-4 h-4" />
+                    <span className="sr-only">Remove row</span>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <datalist id="blueprint-topics">
+          {topics.map(topic => (
+            <option key={topic} value={topic} />
+          ))}
+        </datalist>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Button variant="outline" onClick={handleAddCell}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Row
+          </Button>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-muted-foreground">{getBlueprintTotal(blueprint)} questions</span>
+            {isSaved && (
+              <Button variant="outline" onClick={handleDelete}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            )}
+            <Button onClick={handleSave}>
+              <Save className="w-4 h-4 mr-2" />
+              Save Blueprint
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BlueprintEditor;
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { RotateCcw, Wallet } from 'lucide-react';
+import { BudgetMode, BudgetSettings, SessionUsage } from '@/types';
+import { formatCost, getSessionUsage, loadBudgetSettings, resetSessionUsage, saveBudgetSettings } from '@/lib/usage-budget';
+
+const BudgetSettingsPanel = () => {
+  const [settings, setSettings] = useState<BudgetSettings>(() => loadBudgetSettings());
+  const [usage, setUsage] = useState<SessionUsage>(() => getSessionUsage());
+
+  const updateSettings = (changes: Partial<BudgetSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveBudgetSettings(next);
+  };
+
+  const handleReset = () => {
+    resetSessionUsage();
+    setUsage(getSessionUsage());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="budget-enabled" className="flex items-center">
+          <Wallet className="w-4 h-4 mr-2 text-purple-500" />
+          Session Budget
+        </Label>
+        <Switch
+          id="budget-enabled"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => updateSettings({ enabled })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span>Spent this session: {formatCost(usage.costUSD)}</span>
+          {settings.enabled && <span className="text-muted-foreground">of {formatCost(settings.limitUSD)}</span>}
+        </div>
+        {settings.enabled && (
+          <Progress value={settings.limitUSD > 0 ? Math.min(100, (usage.costUSD / settings.limitUSD) * 100) : 100} className="h-2" />
+        )}
+        <p className="text-xs text-muted-foreground">
+          {usage.requests} request(s) • {usage.inputTokens.toLocaleString()} input and {usage.outputTokens.toLocaleString()} output tokens.
+          {usage.unpricedRequests > 0 && ` ${usage.unpricedRequests} request(s) used a model without known pricing and are not included in the cost.`}
+          {' '}Costs are estimates based on list prices.
+        </p>
+      </div>
+
+      {settings.enabled && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="budget-limit">Limit (USD)</Label>
+            <Input
+              id="budget-limit"
+              type="number"
+              min={0}
+              step={0.1}
+              value={settings.limitUSD}
+              onChange={(e) => updateSettings({ limitUSD: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>When Exceeded</Label>
+            <Select value={settings.mode} onValueChange={(value) => updateSettings({ mode: value as BudgetMode })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Warn</SelectItem>
+                <SelectItem value="block">Block generation</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={handleReset} disabled={usage.requests === 0}>
+        <RotateCcw className="w-4 h-4 mr-2" />
+        Reset Session Usage
+      </Button>
+    </div>
+  );
+};
+
+export default BudgetSettingsPanel;
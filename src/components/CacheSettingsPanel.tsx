@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Database, Loader2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CacheSettings, CacheStats } from '@/types';
+import { clearResponseCache, getCacheStats, loadCacheSettings, saveCacheSettings } from '@/lib/response-cache';
+
+const TTL_OPTIONS = [1, 7, 30];
+const MAX_SIZE_OPTIONS = [10, 50, 200];
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const CacheSettingsPanel = () => {
+  const [settings, setSettings] = useState<CacheSettings>(() => loadCacheSettings());
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const { toast } = useToast();
+
+  const refreshStats = useCallback(async () => {
+    setStats(await getCacheStats());
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  const updateSettings = async (changes: Partial<CacheSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    await saveCacheSettings(next); // Also evicts entries that no longer fit the new limits
+    await refreshStats();
+  };
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await clearResponseCache();
+      toast({ title: "Cache cleared", description: "All cached AI responses were deleted." });
+    } catch (error) {
+      toast({
+        title: "Could not clear cache",
+        description: error instanceof Error ? error.message : "An unknown error occurred.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClearing(false);
+      await refreshStats();
+    }
+  };
+
+  const maxBytes = settings.maxSizeMB * 1024 * 1024;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="cache-enabled" className="flex items-center">
+          <Database className="w-4 h-4 mr-2 text-green-500" />
+          Cache AI Responses
+        </Label>
+        <Switch
+          id="cache-enabled"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => updateSettings({ enabled })}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Responses are stored in this browser, so regenerating an exam from the same document
+        reuses them instead of sending the same requests again.
+      </p>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span>{stats ? `${stats.entries} cached response(s)` : 'Loading...'}</span>
+          <span className="text-muted-foreground">
+            {stats ? formatSize(stats.sizeBytes) : '-'} of {settings.maxSizeMB} MB
+          </span>
+        </div>
+        <Progress value={stats ? Math.min(100, (stats.sizeBytes / maxBytes) * 100) : 0} className="h-2" />
+        {stats && stats.entries > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {stats.byKind.questions} question, {stats.byKind.verification} verification and {stats.byKind.chat} chat response(s) • reused {stats.hits} time(s)
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Keep Responses For</Label>
+          <Select value={String(settings.ttlDays)} onValueChange={(value) => updateSettings({ ttlDays: Number(value) })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TTL_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>{days === 1 ? '1 day' : `${days} days`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Maximum Size</Label>
+          <Select value={String(settings.maxSizeMB)} onValueChange={(value) => updateSettings({ maxSizeMB: Number(value) })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_SIZE_OPTIONS.map(size => (
+                <SelectItem key={size} value={String(size)}>{size} MB</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button variant="outline" size="sm" onClick={handleClear} disabled={isClearing || !stats?.entries}>
+        {isClearing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+        Clear Cache
+      </Button>
+    </div>
+  );
+};
+
+export default CacheSettingsPanel;
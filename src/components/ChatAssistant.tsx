@@ -1,18 +1,31 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { BookOpen, Send, Loader2, User, Bot } from 'lucide-react';
+import { badgeVariants } from '@/components/ui/badge-variants';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Send, Loader2, User, Bot, Square, GitBranch, RotateCcw, Search } from 'lucide-react';
+import { Components } from 'react-markdown';
 // Assuming pdfResult will be EnhancedPDFResult from Index.tsx
 import { EnhancedPDFResult } from '@/lib/enhancedPdfProcessor';
 import { chatWithContent } from '@/lib/geminiApi';
 import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/lib/utils/error-utils';
+import { AIProviderSettings, ChatCitation, ChatTurn, RetrievalResult, RetrievalSettings } from '@/types';
+import { getProviderSetupError } from '@/lib/ai-providers/provider-registry';
+import { createRetrievalIndex, loadRetrievalSettings, retrieveChunks, saveRetrievalSettings } from '@/lib/retrieval-index';
+import RetrievalDebugPanel from '@/components/RetrievalDebugPanel';
+import MarkdownContent from '@/components/MarkdownContent';
+import { parseCitedAnswer } from '@/lib/utils/citation-utils';
+import { formatPageRanges } from '@/lib/utils/topic-utils';
+import { cn } from '@/lib/utils';
 
 
 interface ChatAssistantProps {
-  apiKey: string; // Added apiKey prop
+  aiSettings: AIProviderSettings;
   content: string;
   pdfResult: EnhancedPDFResult | null;
 }
@@ -22,23 +35,75 @@ interface Message {
   type: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  isNotice?: boolean; // Greeting, errors and cancellations: shown in the chat but not sent back to the model
+  retrieval?: RetrievalResult; // The chunks an answer was based on
+  interrupted?: boolean; // The answer stopped streaming before it was complete; still sent back to the model
 }
 
-const ChatAssistant = ({ apiKey, content, pdfResult }: ChatAssistantProps) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      type: 'assistant',
-      content: "Hello! I'm your AI study assistant. I've analyzed your uploaded document and I'm ready to help you understand the concepts, clarify doubts, or generate practice questions. What would you like to know?",
-      timestamp: new Date()
-    }
-  ]);
+interface Conversation {
+  id: string;
+  title: string;
+  messages: Message[];
+}
+
+const createGreeting = (): Message => ({
+  id: 'greeting',
+  type: 'assistant',
+  content: "Hello! I'm your AI study assistant. I've analyzed your uploaded document and I'm ready to help you understand the concepts, clarify doubts, or generate practice questions. What would you like to know?",
+  timestamp: new Date(),
+  isNotice: true,
+});
+
+const createConversation = (number: number, messages: Message[] = [createGreeting()]): Conversation => ({
+  id: `conversation-${Date.now()}-${number}`,
+  title: `Conversation ${number}`,
+  messages,
+});
+
+// The turns the model should see: everything but notices, in order
+const toChatHistory = (messages: Message[]): ChatTurn[] => (
+  messages.filter(message => !message.isNotice).map(message => ({ role: message.type, content: message.content }))
+);
+
+const ChatAssistant = ({ aiSettings, content, pdfResult }: ChatAssistantProps) => {
+  const [conversations, setConversations] = useState<Conversation[]>(() => [createConversation(1)]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null); // null: the first conversation
   const [inputMessage, setInputMessage] = useState('');
+  const [retrievalSettings, setRetrievalSettings] = useState<RetrievalSettings>(() => loadRetrievalSettings());
+  const [debugMessageId, setDebugMessageId] = useState<string | null>(null); // null: the latest answer
+  const [openCitation, setOpenCitation] = useState<ChatCitation | null>(null); // Citation whose source passage is shown
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null); // The answer as it arrives
   const [chatProgress, setChatProgress] = useState<{ value: number; message: string } | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
+  const activeConversation = conversations.find(conversation => conversation.id === activeConversationId) ?? conversations[0];
+  const messages = activeConversation.messages;
+
+  // Without chunks (e.g. plain text content) the whole document is sent, as before
+  const retrievalIndex = useMemo(
+    () => (pdfResult?.chunks.length ? createRetrievalIndex(pdfResult.chunks) : null),
+    [pdfResult]
+  );
+  const answersWithRetrieval = messages.filter(message => message.retrieval);
+  const debugMessage = answersWithRetrieval.find(message => message.id === debugMessageId) ?? answersWithRetrieval[answersWithRetrieval.length - 1];
+
+  const handleRetrievalSettingsChange = (settings: RetrievalSettings) => {
+    setRetrievalSettings(settings);
+    saveRetrievalSettings(settings);
+  };
+
+  const updateMessages = (conversationId: string, update: (messages: Message[]) => Message[]) => {
+    setConversations(prev => prev.map(conversation => (
+      conversation.id === conversationId ? { ...conversation, messages: update(conversation.messages) } : conversation
+    )));
+  };
+
+  // Stop any pending response when leaving the chat
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const suggestedQuestions = [
     "Summarize the key concepts from this document",
     "What are the main topics covered?",
@@ -56,83 +121,185 @@ const ChatAssistant = ({ apiKey, content, pdfResult }: ChatAssistantProps) => {
       content: inputMessage,
       timestamp: new Date()
     };
+    // Replies go to the conversation the question was asked in
+    const conversationId = activeConversation.id;
+    const history = toChatHistory(messages);
+    const setMessages = (update: (messages: Message[]) => Message[]) => updateMessages(conversationId, update);
 
     setMessages(prev => [...prev, userMessage]);
     setInputMessage('');
     setIsLoading(true);
     setChatProgress({ value: 0, message: "Sending..." });
 
-    if (!apiKey) {
+    const setupError = getProviderSetupError(aiSettings);
+    if (setupError) {
       const errorResponseMessage: Message = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: "API Key is missing. Please set it on the home page to use the chat assistant.",
-        timestamp: new Date()
+        content: `The AI provider is not configured. ${setupError}`,
+        timestamp: new Date(),
+        isNotice: true
       };
       setMessages(prev => [...prev, errorResponseMessage]);
       setIsLoading(false);
       setChatProgress(null);
       toast({
-        title: "API Key Missing",
-        description: "Please provide a Gemini API key to use the chat assistant.",
+        title: "AI Provider Not Configured",
+        description: setupError,
         variant: "destructive",
       });
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    let retrieval: RetrievalResult | undefined;
+    let partialText = '';
     try {
+      if (retrievalIndex) {
+        setChatProgress({ value: 10, message: "Finding relevant pages..." });
+        // Follow-ups like "explain that more simply" are searched together with the question before them
+        const previousQuestion = [...history].reverse().find(turn => turn.role === 'user')?.content ?? '';
+        retrieval = await retrieveChunks(aiSettings, retrievalIndex, `${previousQuestion}\n${userMessage.content}`, retrievalSettings, abortController.signal);
+      }
+
       const assistantResponseText = await chatWithContent(
-        apiKey, // Use the apiKey prop
-        content,
+        aiSettings,
+        retrieval ? retrieval.content : content,
         userMessage.content,
-        (progress) => setChatProgress(progress)
+        (progress) => setChatProgress(progress),
+        {
+          signal: abortController.signal,
+          history,
+          citePages: Boolean(retrieval),
+          onPartialText: (text) => {
+            partialText = text;
+            setStreamingMessage({ id: 'streaming', type: 'assistant', content: text, timestamp: new Date(), retrieval });
+          },
+        }
       );
 
       const aiResponseMessage: Message = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: assistantResponseText, // This will include error messages from geminiApi.ts
-        timestamp: new Date()
+        content: assistantResponseText,
+        timestamp: new Date(),
+        retrieval
       };
       setMessages(prev => [...prev, aiResponseMessage]);
-
-      // If the response text itself indicates an error propagated from geminiApi.ts,
-      // we might not need an additional toast, as it's already in the chat.
-      if (assistantResponseText.startsWith("Error communicating with AI:") ||
-          assistantResponseText.startsWith("Sorry, I encountered an error:")) {
-        // Optionally, still show a toast for critical API errors if desired,
-        // but it might be redundant if the error is clearly in chat.
-        // For now, let the error message in chat suffice.
-      }
+      setDebugMessageId(null);
 
     } catch (error) {
-      // This catch block handles errors thrown by chatWithContent if it doesn't return a string
-      // (e.g., API key not provided error before the actual API call attempt in chatWithContent)
-      // or other unexpected errors within this component's try block.
-      console.error('Error in handleSendMessage:', error);
-      const errorMessage = error instanceof Error ? error.message : "An unexpected error occurred.";
-
-      // Add error message to chat
-      const errorChatMsg: Message = {
+      const userError = handleError(error, { action: 'chat', provider: aiSettings.provider });
+      // Whatever was streamed before the failure is kept, marked as incomplete
+      const partialAnswer: Message[] = partialText.trim() ? [{
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: `Sorry, an application error occurred: ${errorMessage}`,
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorChatMsg]);
+        content: partialText,
+        timestamp: new Date(),
+        retrieval,
+        interrupted: true
+      }] : [];
 
-      // Also show a toast for these types of errors
-      toast({
-        title: "Chat Application Error",
-        description: errorMessage,
-        variant: "destructive"
-      });
+      switch (userError.type) {
+        case 'CANCELLED':
+          setMessages(prev => [...prev, ...partialAnswer, {
+            id: (Date.now() + 2).toString(),
+            type: 'assistant',
+            content: partialAnswer.length > 0 ? "Response stopped." : "Response cancelled.",
+            timestamp: new Date(),
+            isNotice: true
+          }]);
+          return;
+        case 'RATE_LIMITED':
+        case 'AI_SERVICE_UNAVAILABLE':
+        case 'NETWORK_ERROR':
+        case 'MALFORMED_RESPONSE':
+          // Transient problems: the message in the chat is enough, the user can simply ask again
+          break;
+        default:
+          // Configuration or content problems need the user's attention
+          toast({
+            title: userError.title,
+            description: userError.message,
+            variant: "destructive"
+          });
+      }
+
+      setMessages(prev => [...prev, ...partialAnswer, {
+        id: (Date.now() + 2).toString(),
+        type: 'assistant',
+        content: partialAnswer.length > 0
+          ? `The response was interrupted. ${userError.message}`
+          : `Sorry, I couldn't answer that. ${userError.message}`,
+        timestamp: new Date(),
+        isNotice: true
+      }]);
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessage(null);
       setIsLoading(false);
       setChatProgress(null);
     }
   };
 
+  const handleCancelMessage = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleResetConversation = () => {
+    updateMessages(activeConversation.id, () => [createGreeting()]);
+  };
+
+  // Starts a new conversation from an earlier point, keeping the current one.
+  // Branching at a question leaves it out and puts it back in the input, so it can be asked differently.
+  const handleBranchConversation = (message: Message) => {
+    const index = messages.indexOf(message);
+    const branchedMessages = message.type === 'user' ? messages.slice(0, index) : messages.slice(0, index + 1);
+    const branch = createConversation(conversations.length + 1, branchedMessages);
+    setConversations(prev => [...prev, branch]);
+    setActiveConversationId(branch.id);
+    if (message.type === 'user') setInputMessage(message.content);
+  };
+
+  // Messages are rendered as Markdown. In answers based on retrieved chunks, page citations become
+  // links to "#citation-N", which are rendered as badges; valid ones open the cited passage.
+  const renderMessageContent = (message: Message) => {
+    if (!message.retrieval) return <MarkdownContent content={message.content} />;
+    const citations: ChatCitation[] = [];
+    const markdown = parseCitedAnswer(message.content, message.retrieval.chunks).map(segment => {
+      if (segment.type === 'text') return segment.text;
+      citations.push(segment.citation);
+      return `[${segment.citation.label.slice(1, -1)}](#citation-${citations.length - 1})`;
+    }).join('');
+
+    const components: Components = {
+      a: ({ node: _node, href, children, ...props }) => {
+        const citation = citations[Number(href?.match(/^#citation-(\d+)$/)?.[1] ?? NaN)];
+        if (!citation) return <a href={href} {...props} target="_blank" rel="noopener noreferrer">{children}</a>;
+        return citation.valid ? (
+          <button
+            type="button"
+            className={cn(badgeVariants({ variant: 'secondary' }), 'mx-0.5 px-1.5 py-0 cursor-pointer border-blue-300 hover:bg-blue-100')}
+            onClick={() => setOpenCitation(citation)}
+            title="Show the cited passage"
+          >
+            {children}
+          </button>
+        ) : (
+          <span
+            className={cn(badgeVariants({ variant: 'outline' }), 'mx-0.5 px-1.5 py-0 line-through text-red-600 border-red-300')}
+            title="This page was not among the passages given to the assistant"
+          >
+            {children}
+          </span>
+        );
+      },
+    };
+    return <MarkdownContent content={markdown} components={components} />;
+  };
+
   // const generateAIResponse = (question: string, documentContent: string): string => { ... } // This function is now removed
 
   const handleSuggestedQuestion = (question: string) => {
@@ -150,7 +317,7 @@ const ChatAssistant = ({ apiKey, content, pdfResult }: ChatAssistantProps) => {
     if (scrollAreaRef.current) {
       scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, streamingMessage]);
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -163,15 +330,35 @@ const ChatAssistant = ({ apiKey, content, pdfResult }: ChatAssistantProps) => {
         {/* Chat Interface */}
         <Card className="lg:col-span-3">
           <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Bot className="w-5 h-5" />
-              <span>Study Chat</span>
-            </CardTitle>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="flex items-center space-x-2">
+                <Bot className="w-5 h-5" />
+                <span>Study Chat</span>
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                {conversations.length > 1 && (
+                  <Select value={activeConversation.id} onValueChange={setActiveConversationId} disabled={isLoading}>
+                    <SelectTrigger className="w-44 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {conversations.map(conversation => (
+                        <SelectItem key={conversation.id} value={conversation.id}>{conversation.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button variant="outline" size="sm" onClick={handleResetConversation} disabled={isLoading || messages.length <= 1}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Reset
+                </Button>
+              </div>
+            </div>
           </CardHeader>
           <CardContent className="p-0">
             <ScrollArea className="h-96 p-4" ref={scrollAreaRef}>
               <div className="space-y-4">
-                {messages.map((message) => (
+                {(streamingMessage ? [...messages, streamingMessage] : messages).map((message) => (
                   <div
                     key={message.id}
                     className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -190,16 +377,47 @@ const ChatAssistant = ({ apiKey, content, pdfResult }: ChatAssistantProps) => {
                         {message.type === 'user' && (
                           <User className="w-4 h-4 mt-1 flex-shrink-0" />
                         )}
-                        <div className="whitespace-pre-line">{message.content}</div>
-                      </div>
-                      <div className="text-xs opacity-70 mt-2">
-                        {message.timestamp.toLocaleTimeString()}
+                        <div className="min-w-0">
+                          {renderMessageContent(message)}
+                          {message === streamingMessage && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />}
+                        </div>
                       </div>
+                      {message !== streamingMessage && (
+                        <div className="flex items-center justify-between gap-2 text-xs opacity-70 mt-2">
+                          <span className="flex items-center gap-2">
+                            {message.timestamp.toLocaleTimeString()}
+                            {message.interrupted && <span>Incomplete</span>}
+                            {message.retrieval && (
+                              <button
+                                type="button"
+                                className={`flex items-center hover:opacity-100 ${message === debugMessage ? 'underline' : ''}`}
+                                onClick={() => setDebugMessageId(message.id)}
+                                title="Show the chunks this answer was based on"
+                              >
+                                <Search className="w-3 h-3 mr-1" />
+                                {message.retrieval.chunks.length} chunk(s)
+                              </button>
+                            )}
+                          </span>
+                          {!message.isNotice && (
+                            <button
+                              type="button"
+                              className="flex items-center hover:opacity-100 disabled:pointer-events-none"
+                              onClick={() => handleBranchConversation(message)}
+                              disabled={isLoading}
+                              title={message.type === 'user' ? 'Start a new conversation that asks this differently' : 'Start a new conversation from this answer'}
+                            >
+                              <GitBranch className="w-3 h-3 mr-1" />
+                              Branch
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
                 
-                {isLoading && (
+                {isLoading && !streamingMessage && (
                   <div className="flex justify-start">
                     <div className="bg-gray-100 rounded-lg p-3">
                       <div className="flex items-center space-x-2">
@@ -223,52 +441,97 @@ const ChatAssistant = ({ apiKey, content, pdfResult }: ChatAssistantProps) => {
                   disabled={isLoading}
                   className="flex-1"
                 />
-                <Button 
-                  onClick={handleSendMessage}
-                  disabled={isLoading || !inputMessage.trim()}
-                >
-                  <Send className="w-4 h-4" />
-                </Button>
+                {isLoading ? (
+                  <Button variant="outline" onClick={handleCancelMessage} title="Stop the response; the answer so far is kept">
+                    <Square className="w-4 h-4 mr-2" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button 
+                    onClick={handleSendMessage}
+                    disabled={!inputMessage.trim()}
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
             </div>
           </CardContent>
         </Card>
 
-        {/* Suggestions Sidebar */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <BookOpen className="w-5 h-5" />
-              <span>Quick Questions</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            <p className="text-sm text-gray-600 mb-4">
-              Try asking these questions:
-            </p>
-            {suggestedQuestions.map((question, index) => (
-              <Button
-                key={index}
-                variant="outline"
-                size="sm"
-                className="w-full text-left justify-start h-auto py-2 px-3"
-                onClick={() => handleSuggestedQuestion(question)}
-              >
-                <span className="text-xs leading-relaxed">{question}</span>
-              </Button>
-            ))}
-            
-            <div className="pt-4 border-t">
-              <Badge variant="secondary" className="text-xs">
-                Document Analyzed
-              </Badge>
-              <p className="text-xs text-gray-500 mt-2">
-                {content.length} characters processed
+        <div className="space-y-6">
+          {/* Suggestions Sidebar */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <BookOpen className="w-5 h-5" />
+                <span>Quick Questions</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-gray-600 mb-4">
+                Try asking these questions:
               </p>
-            </div>
-          </CardContent>
-        </Card>
+              {suggestedQuestions.map((question, index) => (
+                <Button
+                  key={index}
+                  variant="outline"
+                  size="sm"
+                  className="w-full text-left justify-start h-auto py-2 px-3"
+                  onClick={() => handleSuggestedQuestion(question)}
+                >
+                  <span className="text-xs leading-relaxed">{question}</span>
+                </Button>
+              ))}
+            
+              <div className="pt-4 border-t">
+                <Badge variant="secondary" className="text-xs">
+                  Document Analyzed
+                </Badge>
+                <p className="text-xs text-gray-500 mt-2">
+                  {content.length} characters processed
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {retrievalIndex && (
+            <RetrievalDebugPanel
+              settings={retrievalSettings}
+              onSettingsChange={handleRetrievalSettingsChange}
+              chunks={retrievalIndex.chunks}
+              result={debugMessage?.retrieval ?? null}
+              disabled={isLoading}
+            />
+          )}
+        </div>
       </div>
+
+      <Dialog open={openCitation !== null} onOpenChange={(open) => !open && setOpenCitation(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Source: {openCitation?.label.slice(1, -1)}</DialogTitle>
+            <DialogDescription>The passage given to the assistant for this answer.</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <div className="space-y-4">
+              {openCitation?.chunkIndices.map(chunkIndex => {
+                const chunk = retrievalIndex?.chunks[chunkIndex];
+                if (!chunk) return null;
+                return (
+                  <div key={chunkIndex} className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">
+                      Chunk {chunkIndex + 1} • {formatPageRanges([{ start: chunk.pageStart, end: chunk.pageEnd }])}
+                      {chunk.heading && ` • ${chunk.heading}`}
+                    </p>
+                    <p className="text-sm whitespace-pre-line">{chunk.content}</p>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
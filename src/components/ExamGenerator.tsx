@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -6,20 +6,55 @@ import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Settings, BookOpen } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Settings, BookOpen, XCircle, Coins, SlidersHorizontal, ClipboardCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { PDFExtractionResult, EnhancedPDFResult } from '@/lib/enhancedPdfProcessor'; // Assuming pdfResult is EnhancedPDFResult
-import { generateQuestions, GeminiQuestion, QuestionGenerationRequest } from '@/lib/geminiApi';
+import { estimateQuestionGeneration, generateQuestions, GeminiQuestion, QuestionGenerationRequest, regenerateQuestion } from '@/lib/geminiApi';
 import { Progress } from '@/components/ui/progress'; // For showing generation progress
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { formatPageRanges, mapTopicsToChunks, selectContentForTopics } from '@/lib/utils/topic-utils';
+import { createBlueprint, getBlueprintTotal } from '@/lib/utils/blueprint-utils';
+import { markUnverified, mergeQuestionsById } from '@/lib/utils/question-review-utils';
+import { AIProviderSettings, Difficulty, ExamBlueprint, GenerationConfig, QuestionType } from '@/types';
+import { AI_PROVIDERS, getProviderSetupError } from '@/lib/ai-providers/provider-registry';
+import { DEFAULT_GENERATION_CONFIG } from '@/lib/ai-providers/generation-config';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { generateErrorTitle, generateUserMessage, getAIErrorType, handleError } from '@/lib/utils/error-utils';
+import { ToastAction } from '@/components/ui/toast';
+import { isTokenizerLoaded, loadTokenizer } from '@/lib/tokenizer';
+import { checkBudget, formatCost } from '@/lib/usage-budget';
+import { saveQuestionsToBank } from '@/lib/question-bank';
+import BlueprintEditor from './BlueprintEditor';
+import GenerationConfigFields from './GenerationConfigFields';
+import QuestionReview from './QuestionReview';
 
 interface ExamGeneratorProps {
-  apiKey: string; // Added apiKey prop
+  aiSettings: AIProviderSettings;
   content: string;
   pdfResult: EnhancedPDFResult | null;
   onStartExam: (questions: GeminiQuestion[], timeLimitMinutes: number) => void;
 }
 
-const ExamGenerator = ({ apiKey, content, pdfResult, onStartExam }: ExamGeneratorProps) => {
+const DEFAULT_TOPICS = [
+  'Introduction to Computer Science',
+  'Programming Fundamentals',
+  'Data Structures',
+  'Variables and Data Types',
+  'Control Structures'
+];
+
+const QUESTION_TYPE_BADGES: Record<QuestionType, string> = {
+  mcq: 'MCQ',
+  fillblank: 'Fill-blank',
+  truefalse: 'T/F',
+};
+
+// Question ids end in their position in the generation request (e.g. "mcq_12")
+const getQuestionNumber = (question: GeminiQuestion): number => Number(question.id.split('_').pop()) || 0;
+
+const ExamGenerator = ({ aiSettings, content, pdfResult, onStartExam }: ExamGeneratorProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationProgress, setGenerationProgress] = useState<{value: number, message: string} | null>(null);
   const [mcqCount, setMcqCount] = useState([5]);
@@ -28,18 +63,42 @@ const ExamGenerator = ({ apiKey, content, pdfResult, onStartExam }: ExamGenerato
   const [difficulty, setDifficulty] = useState('intermediate');
   const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
   const [timeLimit, setTimeLimit] = useState([30]);
+  const [setupMode, setSetupMode] = useState<'quick' | 'blueprint'>('quick');
+  const [blueprint, setBlueprint] = useState<ExamBlueprint>(() => createBlueprint());
+  const [partialQuestions, setPartialQuestions] = useState<GeminiQuestion[] | null>(null);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [verifyAnswers, setVerifyAnswers] = useState(false);
+  const [isTokenizerReady, setIsTokenizerReady] = useState(isTokenizerLoaded);
+  const [overrideGeneration, setOverrideGeneration] = useState(false);
+  const [examModel, setExamModel] = useState(aiSettings.model);
+  const [examGeneration, setExamGeneration] = useState<GenerationConfig>(aiSettings.generation ?? DEFAULT_GENERATION_CONFIG);
+  const [liveQuestions, setLiveQuestions] = useState<GeminiQuestion[]>([]);
+  const [reviewQuestions, setReviewQuestions] = useState<GeminiQuestion[] | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const reviewingEarlyRef = useRef(false);
+  const bankIdsRef = useRef(new Map<string, string>()); // Generated question id -> bank id, for questions saved during this review
   const { toast } = useToast();
 
+  // Stop any running generation when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Token estimates use a character heuristic until the tokenizer has loaded
+  useEffect(() => {
+    let active = true;
+    loadTokenizer().then(loaded => { if (active) setIsTokenizerReady(loaded); });
+    return () => { active = false; };
+  }, []);
+
   // Use topics from PDF if available, otherwise use default topics
   const extractedTopics = pdfResult?.topics.length 
     ? pdfResult.topics 
-    : [
-        'Introduction to Computer Science',
-        'Programming Fundamentals',
-        'Data Structures',
-        'Variables and Data Types',
-        'Control Structures'
-      ];
+    : DEFAULT_TOPICS;
+
+  // Pages each topic maps to, shown next to the topic checkboxes
+  const topicMappings = useMemo(
+    () => new Map(mapTopicsToChunks(extractedTopics, pdfResult?.chunks ?? []).map(m => [m.topic, m])),
+    [extractedTopics, pdfResult]
+  );
 
   const handleTopicToggle = (topic: string) => {
     setSelectedTopics(prev => 
@@ -49,8 +108,47 @@ const ExamGenerator = ({ apiKey, content, pdfResult, onStartExam }: ExamGenerato
     );
   };
 
+  // Scope generation to the chunks that relate to the selected topics.
+  // Blueprints scope each of their cells to its own topic inside generateQuestions.
+  const topicSelection = useMemo(
+    () => setupMode === 'quick' ? selectContentForTopics(selectedTopics, pdfResult?.chunks ?? [], content) : null,
+    [setupMode, selectedTopics, pdfResult, content]
+  );
+
+  const generationRequest = useMemo<QuestionGenerationRequest>(() => ({
+    content: topicSelection ? topicSelection.content : content,
+    mcqCount: mcqCount[0],
+    fillBlankCount: fillBlankCount[0],
+    trueFalseCount: trueFalseCount[0],
+    difficulty: difficulty as Difficulty,
+    chunks: pdfResult?.chunks ?? [],
+    verifyAnswers,
+    ...(setupMode === 'blueprint' && { blueprint }),
+  }), [topicSelection, content, mcqCount, fillBlankCount, trueFalseCount, difficulty, setupMode, blueprint, pdfResult, verifyAnswers]);
+
+  // Settings for this exam: the saved ones, or a per-exam model and generation config
+  const examSettings = useMemo<AIProviderSettings>(
+    () => overrideGeneration ? { ...aiSettings, model: examModel, generation: examGeneration } : aiSettings,
+    [overrideGeneration, aiSettings, examModel, examGeneration]
+  );
+
+  // Pre-flight estimate; recounted with the real tokenizer once it has loaded, which also makes it exact
+  const estimate = useMemo(
+    () => ({ ...estimateQuestionGeneration(examSettings, generationRequest.content, generationRequest), exact: isTokenizerReady }),
+    [examSettings, generationRequest, isTokenizerReady]
+  );
+
+  const handleOverrideToggle = (enabled: boolean) => {
+    if (enabled) {
+      // Start from the saved settings so only the changed values differ
+      setExamModel(aiSettings.model);
+      setExamGeneration(aiSettings.generation ?? DEFAULT_GENERATION_CONFIG);
+    }
+    setOverrideGeneration(enabled);
+  };
+
   const handleGenerateExam = async () => {
-    if (selectedTopics.length === 0) {
+    if (setupMode === 'quick' && selectedTopics.length === 0) {
       toast({
         title: "Select topics",
         description: "Please select at least one topic to generate questions from.",
@@ -59,32 +157,53 @@ const ExamGenerator = ({ apiKey, content, pdfResult, onStartExam }: ExamGenerato
       return;
     }
 
+    const budget = checkBudget(estimate);
+    if (budget.status === 'block') {
+      toast({
+        title: "Session budget exceeded",
+        description: `This exam is estimated to cost ${formatCost(estimate.costUSD)}, which would bring this session to ${formatCost(budget.projectedUSD)} of your ${formatCost(budget.limitUSD)} budget. Raise the budget in Settings or generate fewer questions.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (budget.status === 'warn') {
+      toast({
+        title: "Over session budget",
+        description: `This exam will bring this session to about ${formatCost(budget.projectedUSD)}, above your ${formatCost(budget.limitUSD)} budget.`,
+      });
+    }
+    if (budget.status === 'unknown_cost') {
+      toast({
+        title: "Budget not enforced",
+        description: `There is no pricing for ${examSettings.model}, so this exam's cost cannot be checked against your session budget.`,
+      });
+    }
+
     setIsGenerating(true);
+    setPartialQuestions(null);
+    setLiveQuestions([]);
+    reviewingEarlyRef.current = false;
     setGenerationProgress({ value: 0, message: "Preparing to generate..."});
     
-    // Content strategy: For now, use the full text.
-    // A future improvement: Filter content based on selectedTopics.
-    // This would require matching selectedTopics (strings) to pdfResult.chunks,
-    // potentially by looking at chunk headings or using a more sophisticated mapping.
-    // const relevantContent = selectedTopics.length > 0 && pdfResult?.chunks
-    //   ? pdfResult.chunks
-    //       .filter(chunk => selectedTopics.some(topic => chunk.content.toLowerCase().includes(topic.toLowerCase()))) // Naive topic matching
-    //       .map(chunk => chunk.content)
-    //       .join("\n\n") || content // Fallback to full content if no chunks match
-    //   : content;
-
-    const request: QuestionGenerationRequest = {
-      content: content, // Using full content passed as prop for now
-      mcqCount: mcqCount[0],
-      fillBlankCount: fillBlankCount[0],
-      trueFalseCount: trueFalseCount[0],
-      difficulty: difficulty as 'basic' | 'intermediate' | 'advanced',
-    };
-
-    if (!apiKey) {
+    if (topicSelection?.usedFallback) {
       toast({
-        title: "API Key Missing",
-        description: "Please provide a Gemini API key in the settings on the home page.",
+        title: "No matching sections found",
+        description: "None of the selected topics could be matched to sections of the document, so questions will be generated from the full text.",
+      });
+    } else if (topicSelection && topicSelection.unmatchedTopics.length > 0) {
+      toast({
+        title: "Some topics were not found",
+        description: `No matching sections for: ${topicSelection.unmatchedTopics.join(', ')}. Questions will cover the other selected topics.`,
+      });
+    }
+
+    const request = generationRequest;
+
+    const setupError = getProviderSetupError(examSettings);
+    if (setupError) {
+      toast({
+        title: "AI Provider Not Configured",
+        description: setupError,
         variant: "destructive",
       });
       setIsGenerating(false);
@@ -92,39 +211,182 @@ const ExamGenerator = ({ apiKey, content, pdfResult, onStartExam }: ExamGenerato
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
-      const generatedQuestions = await generateQuestions(
-        apiKey, // Pass the apiKey
+      const { questions: generatedQuestions, summary } = await generateQuestions(
+        examSettings,
         request.content,
         request,
-        (progress) => setGenerationProgress(progress)
+        (progress) => setGenerationProgress(progress),
+        {
+          signal: abortController.signal,
+          bypassCache,
+          onQuestions: (completed) => setLiveQuestions(prev => mergeQuestionsById(prev, completed)),
+        }
       );
+
+      // The review already opened with the questions that had arrived
+      if (reviewingEarlyRef.current) return;
+
+      if (summary.cancelled) {
+        // Keep the completed questions so the user can still take a shorter exam; verification did not run on them
+        const keptQuestions = request.verifyAnswers ? markUnverified(generatedQuestions) : generatedQuestions;
+        setPartialQuestions(keptQuestions.length > 0 ? keptQuestions : null);
+        setGenerationProgress(null);
+        toast({
+          title: "Generation cancelled",
+          description: generatedQuestions.length > 0
+            ? `${generatedQuestions.length} of ${summary.requested} questions were completed before cancelling.`
+            : "No questions were completed before cancelling.",
+        });
+        return;
+      }
+
+      if (generatedQuestions.length === 0) {
+        const errorType = getAIErrorType(summary.failures[0]?.errorCode ?? 'parse_failure');
+        toast({
+          title: `No Questions Generated: ${generateErrorTitle(errorType)}`,
+          description: generateUserMessage(errorType),
+          variant: "destructive",
+        });
+        setGenerationProgress(null);
+        return;
+      }
+
+      const flaggedNote = summary.verification?.flagged
+        ? ` ${summary.verification.flagged} question(s) were flagged by answer verification; check them during review.`
+        : '';
+      if (summary.failures.length > 0) {
+        const failedByType = summary.failures
+          .map(f => `${f.missing} ${f.type === 'mcq' ? 'MCQ' : f.type === 'fillblank' ? 'fill-blank' : 'T/F'} (${f.topic ? `${f.topic}, ` : ''}section ${f.chunkIndex + 1}: ${generateErrorTitle(getAIErrorType(f.errorCode)).toLowerCase()})`)
+          .join(', ');
+        toast({
+          title: `Exam generated with ${summary.generated} of ${summary.requested} questions`,
+          description: `Some questions could not be generated and were left out: ${failedByType}.${flaggedNote}`,
+        });
+      } else {
+        toast({
+          title: "Exam generated successfully!",
+          description: (summary.cachedResponses > 0
+            ? `Created ${generatedQuestions.length} questions (${summary.cachedResponses} request(s) served from the cache).`
+            : `Created ${generatedQuestions.length} questions.`) + flaggedNote,
+        });
+      }
       
-      toast({
-        title: "Exam generated successfully!",
-        description: `Created ${generatedQuestions.length} questions.`,
-      });
-      
-      // Pass generated questions and time limit to the parent component
-      onStartExam(generatedQuestions, timeLimit[0]);
+      // Questions are checked by the user before the exam starts
+      setReviewQuestions(generatedQuestions);
 
     } catch (error) {
-      console.error('Error generating exam:', error);
-      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      const userError = handleError(error, { action: 'generateExam', provider: examSettings.provider, model: examSettings.model });
       toast({
-        title: "Error Generating Exam",
-        description: errorMessage,
+        title: `Error Generating Exam: ${userError.title}`,
+        description: userError.message,
         variant: "destructive",
+        // Transient failures can simply be retried; configuration errors need a visit to Settings first
+        ...(userError.retryable && {
+          action: <ToastAction altText="Try again" onClick={() => handleGenerateExam()}>Try again</ToastAction>,
+        }),
       });
       setGenerationProgress(null); // Clear progress on error
     } finally {
+      abortControllerRef.current = null;
       setIsGenerating(false);
+      setLiveQuestions([]);
       // Optionally clear progress after a delay or keep it to show completion/error
       // setTimeout(() => setGenerationProgress(null), 3000);
     }
   };
 
-  const totalQuestions = mcqCount[0] + fillBlankCount[0] + trueFalseCount[0];
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleReviewLiveQuestions = () => {
+    // Questions from concurrent sections arrive interleaved; ids follow the requested order
+    const questions = [...liveQuestions].sort((a, b) => getQuestionNumber(a) - getQuestionNumber(b));
+    reviewingEarlyRef.current = true;
+    abortControllerRef.current?.abort();
+    // Verification runs after generation, so none of these questions has been checked yet
+    if (generationRequest.verifyAnswers) {
+      setReviewQuestions(markUnverified(questions));
+      toast({
+        title: "Answers not verified",
+        description: "Generation was stopped before answer verification ran. Check the answers of these questions yourself.",
+      });
+    } else {
+      setReviewQuestions(questions);
+    }
+  };
+
+  // Saved ids belong to the questions under review; a new review starts without any,
+  // and a question edited or regenerated after saving no longer matches its bank entry
+  useEffect(() => bankIdsRef.current.clear(), [reviewQuestions]);
+
+  const handleSaveReviewedQuestions = async (questions: GeminiQuestion[]) => {
+    try {
+      const saved = await saveQuestionsToBank(questions, pdfResult?.metadata.fileName, pdfResult?.chunks);
+      questions.forEach((question, index) => bankIdsRef.current.set(question.id, saved[index].id));
+      const savedCount = new Set(saved.map(entry => entry.id)).size;
+      toast({ title: "Saved to question bank", description: `${savedCount} question(s) can now be reused without generating them again.` });
+    } catch (error) {
+      console.warn('Failed to save questions to the question bank:', error);
+      toast({
+        title: "Questions not saved",
+        description: "The question bank is not available in this browser, so these questions could not be saved.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Questions saved to the bank take their bank id, so the exam's results update their usage stats.
+  // A bank entry shared by repeated questions is used once; the repeats keep their generated ids.
+  const handleStartReviewedExam = (questions: GeminiQuestion[]) => {
+    const usedBankIds = new Set<string>();
+    const examQuestions = questions.map(question => {
+      const bankId = bankIdsRef.current.get(question.id);
+      if (!bankId || usedBankIds.has(bankId)) return question;
+      usedBankIds.add(bankId);
+      return { ...question, id: bankId };
+    });
+    onStartExam(examQuestions, timeLimit[0]);
+  };
+
+  if (reviewQuestions) {
+    return (
+      <QuestionReview
+        questions={reviewQuestions}
+        timeLimitMinutes={timeLimit[0]}
+        onRegenerate={(question, signal) => regenerateQuestion(examSettings, generationRequest.content, generationRequest, question, signal)}
+        onStartExam={handleStartReviewedExam}
+        onSaveToBank={handleSaveReviewedQuestions}
+        onQuestionChange={(id) => bankIdsRef.current.delete(id)}
+        onDiscard={() => setReviewQuestions(null)}
+      />
+    );
+  }
+
+  const totalQuestions = setupMode === 'blueprint'
+    ? getBlueprintTotal(blueprint)
+    : mcqCount[0] + fillBlankCount[0] + trueFalseCount[0];
+  const blueprintTopicCount = new Set(
+    blueprint.cells.filter(cell => cell.count > 0).map(cell => cell.topic.trim().toLowerCase())
+  ).size;
+
+  const timeLimitControl = (
+    <div className="space-y-3">
+      <Label>Time Limit (minutes): {timeLimit[0]}</Label>
+      <Slider
+        value={timeLimit}
+        onValueChange={setTimeLimit}
+        min={10}
+        max={120}
+        step={5}
+        className="w-full"
+      />
+    </div>
+  );
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -139,128 +401,252 @@ const ExamGenerator = ({ apiKey, content, pdfResult, onStartExam }: ExamGenerato
             <Label className="text-sm font-medium">{generationProgress.message}</Label>
             <Progress value={generationProgress.value} className="w-full mt-2" />
             <p className="text-xs text-muted-foreground mt-1 text-center">{generationProgress.value}% complete</p>
+            <div className="flex justify-center space-x-2 mt-3">
+              <Button variant="outline" size="sm" onClick={handleCancelGeneration}>
+                <XCircle className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              {liveQuestions.length > 0 && (
+                <Button size="sm" onClick={handleReviewLiveQuestions}>
+                  <ClipboardCheck className="w-4 h-4 mr-2" />
+                  Stop and Review {liveQuestions.length} Question{liveQuestions.length === 1 ? '' : 's'}
+                </Button>
+              )}
+            </div>
           </CardContent>
         </Card>
       )}
 
-      <div className="grid md:grid-cols-2 gap-6">
-        {/* Question Settings */}
+      {isGenerating && liveQuestions.length > 0 && (
         <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Settings className="w-5 h-5" />
-              <span>Question Settings</span>
-            </CardTitle>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Questions so far ({liveQuestions.length} of {totalQuestions})</CardTitle>
           </CardHeader>
-          <CardContent className="space-y-6">
-            <div className="space-y-3">
-              <Label htmlFor="mcq-slider">Multiple Choice Questions: {mcqCount[0]}</Label>
-              <Slider
-                id="mcq-slider"
-                value={mcqCount}
-                onValueChange={setMcqCount}
-                min={0}
-                max={20}
-                step={1}
-                className="w-full"
-              />
-            </div>
+          <CardContent>
+            <ScrollArea className="h-64 pr-3">
+              <ol className="space-y-2">
+                {liveQuestions.map((question, index) => (
+                  <li key={question.id} className="flex items-start gap-2 text-sm animate-in fade-in">
+                    <span className="text-muted-foreground w-6 shrink-0 text-right">{index + 1}.</span>
+                    <Badge variant="outline" className="shrink-0">{QUESTION_TYPE_BADGES[question.type]}</Badge>
+                    <span className="min-w-0">{question.question}</span>
+                  </li>
+                ))}
+              </ol>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
 
-            <div className="space-y-3">
-              <Label>Fill in the Blanks: {fillBlankCount[0]}</Label>
-              <Slider
-                value={fillBlankCount}
-                onValueChange={setFillBlankCount}
-                min={0}
-                max={15}
-                step={1}
-                className="w-full"
-              />
+      {!isGenerating && partialQuestions && (
+        <Card className="border-yellow-200 bg-yellow-50 dark:bg-yellow-900/20 dark:border-yellow-800">
+          <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm">
+              Generation was cancelled. {partialQuestions.length} completed question{partialQuestions.length === 1 ? '' : 's'} can still be used.
+            </p>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setPartialQuestions(null)}>
+                Discard
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => {
+                  setReviewQuestions(partialQuestions);
+                  setPartialQuestions(null);
+                }}
+              >
+                Review {partialQuestions.length} Questions
+              </Button>
             </div>
+          </CardContent>
+        </Card>
+      )}
 
-            <div className="space-y-3">
-              <Label>True/False Questions: {trueFalseCount[0]}</Label>
-              <Slider
-                value={trueFalseCount}
-                onValueChange={setTrueFalseCount}
-                min={0}
-                max={10}
-                step={1}
-                className="w-full"
-              />
-            </div>
+      <Tabs value={setupMode} onValueChange={(value) => setSetupMode(value as 'quick' | 'blueprint')}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="quick">Quick Setup</TabsTrigger>
+          <TabsTrigger value="blueprint">Blueprint</TabsTrigger>
+        </TabsList>
 
-            <div className="space-y-3">
-              <Label>Difficulty Level</Label>
-              <Select value={difficulty} onValueChange={setDifficulty}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="basic">Basic</SelectItem>
-                  <SelectItem value="intermediate">Intermediate</SelectItem>
-                  <SelectItem value="advanced">Advanced</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+        <TabsContent value="quick">
+          <div className="grid md:grid-cols-2 gap-6">
+            {/* Question Settings */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Settings className="w-5 h-5" />
+                  <span>Question Settings</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-3">
+                  <Label htmlFor="mcq-slider">Multiple Choice Questions: {mcqCount[0]}</Label>
+                  <Slider
+                    id="mcq-slider"
+                    value={mcqCount}
+                    onValueChange={setMcqCount}
+                    min={0}
+                    max={20}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
 
-            <div className="space-y-3">
-              <Label>Time Limit (minutes): {timeLimit[0]}</Label>
-              <Slider
-                value={timeLimit}
-                onValueChange={setTimeLimit}
-                min={10}
-                max={120}
-                step={5}
-                className="w-full"
-              />
-            </div>
-          </CardContent>
-        </Card>
+                <div className="space-y-3">
+                  <Label>Fill in the Blanks: {fillBlankCount[0]}</Label>
+                  <Slider
+                    value={fillBlankCount}
+                    onValueChange={setFillBlankCount}
+                    min={0}
+                    max={15}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
 
-        {/* Topic Selection */}
+                <div className="space-y-3">
+                  <Label>True/False Questions: {trueFalseCount[0]}</Label>
+                  <Slider
+                    value={trueFalseCount}
+                    onValueChange={setTrueFalseCount}
+                    min={0}
+                    max={10}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label>Difficulty Level</Label>
+                  <Select value={difficulty} onValueChange={setDifficulty}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="basic">Basic</SelectItem>
+                      <SelectItem value="intermediate">Intermediate</SelectItem>
+                      <SelectItem value="advanced">Advanced</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {timeLimitControl}
+              </CardContent>
+            </Card>
+
+            {/* Topic Selection */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <BookOpen className="w-5 h-5" />
+                  <span>Select Topics</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-600 mb-4">
+                  Choose which topics to include in your exam:
+                </p>
+            
+                <div className="space-y-3">
+                  {extractedTopics.map((topic) => (
+                    <div key={topic} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={topic}
+                        checked={selectedTopics.includes(topic)}
+                        onCheckedChange={() => handleTopicToggle(topic)}
+                      />
+                      <Label htmlFor={topic} className="text-sm cursor-pointer">
+                        {topic}
+                      </Label>
+                      {pdfResult && (
+                        <span className="text-xs text-muted-foreground ml-auto whitespace-nowrap">
+                          {formatPageRanges(topicMappings.get(topic)?.pageRanges ?? []) || 'No matching pages'}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {selectedTopics.length > 0 && (
+                  <div className="pt-4 border-t">
+                    <p className="text-sm font-medium mb-2">Selected Topics:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {selectedTopics.map((topic) => (
+                        <Badge key={topic} variant="secondary">
+                          {topic}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="blueprint" className="space-y-6">
+          <BlueprintEditor
+            blueprint={blueprint}
+            topics={extractedTopics}
+            chunks={pdfResult?.chunks ?? []}
+            onChange={setBlueprint}
+          />
+          <Card>
+            <CardContent className="p-6">
+              {timeLimitControl}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {aiSettings.provider !== 'mock' && (
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <BookOpen className="w-5 h-5" />
-              <span>Select Topics</span>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center space-x-2">
+                <SlidersHorizontal className="w-5 h-5" />
+                <span>Model & Generation</span>
+              </span>
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="override-generation" className="text-sm font-normal">Override for this exam</Label>
+                <Switch id="override-generation" checked={overrideGeneration} onCheckedChange={handleOverrideToggle} disabled={isGenerating} />
+              </div>
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <p className="text-sm text-gray-600 mb-4">
-              Choose which topics to include in your exam:
-            </p>
-            
-            <div className="space-y-3">
-              {extractedTopics.map((topic) => (
-                <div key={topic} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={topic}
-                    checked={selectedTopics.includes(topic)}
-                    onCheckedChange={() => handleTopicToggle(topic)}
+            {overrideGeneration ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="exam-model">Model</Label>
+                  <Input
+                    id="exam-model"
+                    list="exam-model-options"
+                    value={examModel}
+                    placeholder={AI_PROVIDERS[aiSettings.provider].defaultModel}
+                    onChange={(e) => setExamModel(e.target.value)}
                   />
-                  <Label htmlFor={topic} className="text-sm cursor-pointer">
-                    {topic}
-                  </Label>
+                  <datalist id="exam-model-options">
+                    {AI_PROVIDERS[aiSettings.provider].suggestedModels.map(model => (
+                      <option key={model} value={model} />
+                    ))}
+                  </datalist>
                 </div>
-              ))}
-            </div>
-
-            {selectedTopics.length > 0 && (
-              <div className="pt-4 border-t">
-                <p className="text-sm font-medium mb-2">Selected Topics:</p>
-                <div className="flex flex-wrap gap-2">
-                  {selectedTopics.map((topic) => (
-                    <Badge key={topic} variant="secondary">
-                      {topic}
-                    </Badge>
-                  ))}
-                </div>
-              </div>
+                <GenerationConfigFields
+                  config={examGeneration}
+                  provider={aiSettings.provider}
+                  onChange={setExamGeneration}
+                  idPrefix="exam-generation"
+                />
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Using {aiSettings.model || AI_PROVIDERS[aiSettings.provider].defaultModel} with the generation parameters from Settings.
+                Override them to use e.g. a stronger model for an advanced exam.
+              </p>
             )}
           </CardContent>
         </Card>
-      </div>
+      )}
 
       {/* Summary and Generate */}
       <Card>
@@ -269,28 +655,62 @@ const ExamGenerator = ({ apiKey, content, pdfResult, onStartExam }: ExamGenerato
             <div className="space-y-1">
               <h3 className="font-semibold">Exam Summary</h3>
               <p className="text-sm text-gray-600">
-                {totalQuestions} questions • {timeLimit[0]} minutes • {difficulty} difficulty
+                {setupMode === 'blueprint'
+                  ? `${totalQuestions} questions • ${timeLimit[0]} minutes • ${blueprint.name || 'Untitled'} blueprint`
+                  : `${totalQuestions} questions • ${timeLimit[0]} minutes • ${difficulty} difficulty`}
               </p>
               <p className="text-xs text-gray-500">
-                {selectedTopics.length} topics selected
+                {setupMode === 'blueprint' ? blueprintTopicCount : selectedTopics.length} topics selected
               </p>
+              {estimate.requests > 0 && (
+                <p className="text-xs text-gray-500 flex items-center" title="Repair prompts and cached responses can change the final numbers">
+                  <Coins className="w-3 h-3 mr-1" />
+                  {estimate.exact ? '' : '≈ '}{estimate.inputTokens.toLocaleString()} input + ~{estimate.outputTokens.toLocaleString()} output tokens
+                  {' • '}{estimate.requests} request{estimate.requests === 1 ? '' : 's'}
+                  {' • '}{estimate.costUSD === null ? 'cost unknown for this model' : `~${formatCost(estimate.costUSD)}`}
+                </p>
+              )}
             </div>
             
-            <Button 
-              onClick={handleGenerateExam}
-              disabled={isGenerating || totalQuestions === 0}
-              size="lg"
-              className="min-w-32"
-            >
-              {isGenerating ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Generating...
-                </>
-              ) : (
-                'Generate Exam'
-              )}
-            </Button>
+            <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-2" title="Ask the AI to answer each question from its source on its own, and flag questions where it disagrees with the answer key">
+                <Checkbox
+                  id="verify-answers"
+                  checked={verifyAnswers}
+                  onCheckedChange={(checked) => setVerifyAnswers(checked === true)}
+                  disabled={isGenerating}
+                />
+                <Label htmlFor="verify-answers" className="text-sm cursor-pointer">
+                  Verify answers
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2" title="Ignore cached AI responses and ask the provider for new questions">
+                <Checkbox
+                  id="bypass-cache"
+                  checked={bypassCache}
+                  onCheckedChange={(checked) => setBypassCache(checked === true)}
+                  disabled={isGenerating}
+                />
+                <Label htmlFor="bypass-cache" className="text-sm cursor-pointer">
+                  Regenerate (bypass cache)
+                </Label>
+              </div>
+              <Button 
+                onClick={handleGenerateExam}
+                disabled={isGenerating || totalQuestions === 0}
+                size="lg"
+                className="min-w-32"
+              >
+                {isGenerating ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Generating...
+                  </>
+                ) : (
+                  'Generate Exam'
+                )}
+              </Button>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,117 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldAlert, XCircle } from 'lucide-react';
+import { AIProviderId, GenerationConfig, SafetyCategory, SafetyThreshold } from '@/types';
+import { getGenerationConfigErrors, SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from '@/lib/ai-providers/generation-config';
+
+interface GenerationConfigFieldsProps {
+  config: GenerationConfig;
+  provider: AIProviderId;
+  onChange: (config: GenerationConfig) => void;
+  idPrefix?: string; // Keeps input ids unique when the fields are rendered more than once
+}
+
+// Empty inputs mean "use the provider's default"
+const parseOptionalNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const GenerationConfigFields = ({ config, provider, onChange, idPrefix = 'generation' }: GenerationConfigFieldsProps) => {
+  const errors = getGenerationConfigErrors(config);
+
+  const updateSafety = (category: SafetyCategory, threshold: SafetyThreshold) => {
+    onChange({ ...config, safety: { ...config.safety, [category]: threshold } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-temperature`}>Temperature</Label>
+          <Input
+            id={`${idPrefix}-temperature`}
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            placeholder="Default"
+            value={config.temperature ?? ''}
+            onChange={(e) => onChange({ ...config, temperature: parseOptionalNumber(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-top-p`}>Top P</Label>
+          <Input
+            id={`${idPrefix}-top-p`}
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            placeholder="Default"
+            value={config.topP ?? ''}
+            onChange={(e) => onChange({ ...config, topP: parseOptionalNumber(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-max-tokens`}>Max Output Tokens</Label>
+          <Input
+            id={`${idPrefix}-max-tokens`}
+            type="number"
+            min={256}
+            max={65536}
+            step={256}
+            placeholder="Default"
+            value={config.maxOutputTokens ?? ''}
+            onChange={(e) => onChange({ ...config, maxOutputTokens: parseOptionalNumber(e.target.value) })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Leave a field empty to use the provider's default. Lower temperatures give more predictable questions.
+      </p>
+
+      {errors.length > 0 && (
+        <div className="space-y-1 text-xs">
+          {errors.map(error => (
+            <p key={error} className="flex items-center text-red-600">
+              <XCircle className="w-3 h-3 mr-1 shrink-0" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {provider === 'gemini' ? (
+        <div className="space-y-2">
+          <Label className="flex items-center">
+            <ShieldAlert className="w-4 h-4 mr-2 text-orange-500" />
+            Safety Thresholds
+          </Label>
+          <div className="grid grid-cols-2 gap-3">
+            {SAFETY_CATEGORIES.map(category => (
+              <div key={category.value} className="space-y-1">
+                <span className="text-xs text-muted-foreground">{category.label}</span>
+                <Select value={config.safety[category.value]} onValueChange={(value) => updateSafety(category.value, value as SafetyThreshold)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SAFETY_THRESHOLDS.map(threshold => (
+                      <SelectItem key={threshold.value} value={threshold.value}>{threshold.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Medical, security or history material can trip the default filters. Relax only the categories that cause blocks.
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Safety thresholds are only configurable for Google Gemini.</p>
+      )}
+    </div>
+  );
+};
+
+export default GenerationConfigFields;
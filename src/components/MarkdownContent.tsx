@@ -0,0 +1,59 @@
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import { cn } from '@/lib/utils';
+
+interface MarkdownContentProps {
+  content: string;
+  inline?: boolean; // Renders only inline elements, for option labels and other text inside a line or a button
+  className?: string;
+  components?: Components; // Overrides for individual elements, e.g. links
+}
+
+// Raw HTML is never rendered, and the tree is sanitized before math and highlighting add their (trusted) markup.
+// The math classes are kept so remark-math's output can be told apart: inline $x$ versus $$x$$ blocks.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const defaultComponents: Components = {
+  a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+};
+
+// In inline mode these are replaced by their contents: block elements are invalid inside a span or button,
+// and a link inside a button would take the click meant for the button.
+const INLINE_DISALLOWED_ELEMENTS = [
+  'p', 'pre', 'ul', 'ol', 'li', 'blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td', 'section', 'div', 'a', 'input',
+];
+
+/**
+ * Renders AI-generated text as Markdown, with GitHub tables and lists, KaTeX math ($...$ and $$...$$)
+ * and highlighted code blocks
+ */
+const MarkdownContent = ({ content, inline, className, components }: MarkdownContentProps) => {
+  const Wrapper = inline ? 'span' : 'div';
+  return (
+    <Wrapper className={cn('markdown-content', inline && 'markdown-content-inline', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema], [rehypeKatex, { throwOnError: false }], rehypeHighlight]}
+        components={{ ...defaultComponents, ...components }}
+        disallowedElements={inline ? INLINE_DISALLOWED_ELEMENTS : undefined}
+        unwrapDisallowed
+      >
+        {content}
+      </ReactMarkdown>
+    </Wrapper>
+  );
+};
+
+export default MarkdownContent;
@@ -3,85 +3,39 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { Clock, CheckCircle, XCircle, Timer } from 'lucide-react';
-
-
-interface ExamConfig {
-  timeLimit?: number;
-  // Add other properties as needed
-}
+import { CheckCircle, XCircle, Timer, FileQuestion, BookOpen } from 'lucide-react';
+import { ExamAnswer, ExamConfig, GeminiQuestion } from '@/types';
+import { calculateScore, formatAnswer, formatCorrectAnswer, getAnswerStatus, isAnswerCorrect } from '@/lib/utils/grading-utils';
+import { recordQuestionResults } from '@/lib/question-bank';
+import { formatGroundingPages } from '@/lib/utils/grounding-utils';
+import MarkdownContent from '@/components/MarkdownContent';
 
 interface MockExamProps {
-  examConfig?: ExamConfig;
+  examConfig?: ExamConfig | null;
   onComplete: () => void;
 }
 
-interface Question {
-  id: string;
-  type: 'mcq' | 'fillblank' | 'truefalse';
-  question: string;
-  options?: string[];
-  answer: string | boolean;
-  explanation: string;
-}
-
 const MockExam = ({ examConfig, onComplete }: MockExamProps) => {
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, string | boolean>>({});
+  const [answers, setAnswers] = useState<Record<string, ExamAnswer>>({});
   const [timeLeft, setTimeLeft] = useState(examConfig?.timeLimit ? examConfig.timeLimit * 60 : 1800); // Use config time or default 30 minutes
   const [showResults, setShowResults] = useState(false);
   const [userAnswer, setUserAnswer] = useState<string>('');
 
-  // Sample questions (in real implementation, these would come from AI generation)
-  const questions: Question[] = [
-    {
-      id: '1',
-      type: 'mcq',
-      question: 'What is a variable in programming?',
-      options: ['A fixed value', 'A container for storing data', 'A type of loop', 'A function'],
-      answer: 'A container for storing data',
-      explanation: 'Variables are containers that store data values. They can hold different types of data and their values can change during program execution.'
-    },
-    {
-      id: '2',
-      type: 'fillblank',
-      question: '_______ structures determine the flow of program execution.',
-      answer: 'Control',
-      explanation: 'Control structures like if statements, loops, and functions determine how a program executes and in what order.'
-    },
-    {
-      id: '3',
-      type: 'truefalse',
-      question: 'Arrays can only store numbers.',
-      answer: false,
-      explanation: 'Arrays can store various data types including numbers, strings, booleans, and even other arrays or objects.'
-    },
-    {
-      id: '4',
-      type: 'mcq',
-      question: 'Which of the following is NOT a programming control structure?',
-      options: ['if-else statement', 'for loop', 'variable declaration', 'while loop'],
-      answer: 'variable declaration',
-      explanation: 'Variable declaration is used to create variables, not to control program flow. Control structures include conditionals and loops.'
-    },
-    {
-      id: '5',
-      type: 'fillblank',
-      question: 'In programming, _______ are collections of similar data items stored in contiguous memory.',
-      answer: 'Arrays',
-      explanation: 'Arrays are data structures that store multiple values of the same type in consecutive memory locations.'
-    }
-  ];
+  // Questions come from the generator; timed practice may start without any
+  const questions: GeminiQuestion[] = examConfig?.questions ?? [];
+  const hasQuestions = questions.length > 0;
 
   // Timer effect
   useEffect(() => {
+    if (!hasQuestions) return;
     if (timeLeft > 0 && !showResults) {
       const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
       return () => clearTimeout(timer);
     } else if (timeLeft === 0) {
       handleSubmitExam();
     }
-  }, [timeLeft, showResults]);
+  }, [timeLeft, showResults, hasQuestions]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -89,7 +43,7 @@ const MockExam = ({ examConfig, onComplete }: MockExamProps) => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleAnswerChange = (answer: string | boolean) => {
+  const handleAnswerChange = (answer: ExamAnswer) => {
     setUserAnswer(answer.toString());
     setAnswers({ ...answers, [questions[currentQuestion].id]: answer });
   };
@@ -115,37 +69,43 @@ const MockExam = ({ examConfig, onComplete }: MockExamProps) => {
   } 
 
   const handleSubmitExam = () => {
+    if (showResults) return;
     setShowResults(true);
+    // Only questions from the question bank are tracked; others are ignored
+    recordQuestionResults(questions.map(question => ({
+      questionId: question.id,
+      answered: answers[question.id] !== undefined && answers[question.id] !== '',
+      correct: isAnswerCorrect(question, answers[question.id]),
+    }))).catch(error => console.warn('Failed to record question bank stats:', error));
   };
 
-  const calculateScore = () => {
-    let correct = 0;
-    questions.forEach(question => {
-      let userAns = answers[question.id];
-      // For true/false, compare as string
-      if (question.type === 'truefalse') {
-        userAns = userAns !== undefined ? userAns.toString() : '';
-        if (userAns === question.answer.toString()) {
-          correct++;
-        }
-      } else {
-        if (userAns === question.answer) {
-          correct++;
-        }
-      }
-    });
-    return { correct, total: questions.length, percentage: Math.round((correct / questions.length) * 100) };
-  };
+  if (!hasQuestions) {
+    const isTimed = examConfig?.mode === 'timed';
 
-  const getAnswerStatus = (questionId: string) => {
-    const question = questions.find(q => q.id === questionId);
-    const userAnswer = answers[questionId];
-    if (!question) return 'unanswered';
-    return userAnswer === question.answer ? 'correct' : 'incorrect';
-  };
+    return (
+      <div className="max-w-2xl mx-auto">
+        <Card>
+          <CardHeader className="text-center">
+            <FileQuestion className="w-12 h-12 text-gray-400 mx-auto mb-2" />
+            <CardTitle className="text-2xl">No Questions Available</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-center">
+            <p className="text-muted-foreground">
+              {isTimed
+                ? "A timed practice session needs questions to run. Upload a PDF and generate an exam first, then start your practice session."
+                : "The exam generator did not return any questions. Please go back and try generating the exam again."}
+            </p>
+            <Button onClick={onComplete} size="lg">
+              Back to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
   if (showResults) {
-    const score = calculateScore();
+    const score = calculateScore(questions, answers);
     
     return (
       <div className="max-w-4xl mx-auto space-y-6">
@@ -171,7 +131,7 @@ const MockExam = ({ examConfig, onComplete }: MockExamProps) => {
             <div className="space-y-4">
               <h3 className="text-lg font-semibold">Question Review</h3>
               {questions.map((question, index) => {
-                const status = getAnswerStatus(question.id);
+                const status = getAnswerStatus(question, answers[question.id]);
                 const userAnswer = answers[question.id];
                 
                 return (
@@ -191,23 +151,34 @@ const MockExam = ({ examConfig, onComplete }: MockExamProps) => {
                         </div>
                       </div>
                       
-                      <p className="mb-3">{question.question}</p>
+                      <MarkdownContent content={question.question} className="mb-3" />
                       
                       <div className="space-y-2 text-sm">
                         <div>
                           <span className="font-medium">Your answer: </span>
                           <span className={status === 'correct' ? 'text-green-600' : 'text-red-600'}>
-                            {userAnswer?.toString() || 'Not answered'}
+                            <MarkdownContent content={formatAnswer(question, userAnswer)} inline />
                           </span>
                         </div>
                         <div>
                           <span className="font-medium">Correct answer: </span>
-                          <span className="text-green-600">{question.answer.toString()}</span>
+                          <span className="text-green-600"><MarkdownContent content={formatCorrectAnswer(question)} inline /></span>
                         </div>
                         <div className="bg-blue-50 p-2 rounded">
-                          <span className="font-medium">Explanation: </span>
-                          {question.explanation}
+                          <p className="font-medium">Explanation</p>
+                          <MarkdownContent content={question.explanation} className="mt-1" />
                         </div>
+                        {question.grounding?.pageStart !== undefined && (
+                          <div className="border-l-2 border-muted pl-3 text-muted-foreground">
+                            <p className="flex items-center font-medium">
+                              <BookOpen className="w-4 h-4 mr-1" />
+                              See {formatGroundingPages(question.grounding)}
+                            </p>
+                            {question.grounding.quote && (
+                              <blockquote className="mt-1 italic">"{question.grounding.quote}"</blockquote>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -260,7 +231,7 @@ const MockExam = ({ examConfig, onComplete }: MockExamProps) => {
       {/* Question */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-xl">{question.question}</CardTitle>
+          <MarkdownContent content={question.question} className="text-xl font-semibold leading-snug" />
         </CardHeader>
         <CardContent className="space-y-4">
           {question.type === 'mcq' && question.options && (
@@ -268,12 +239,12 @@ const MockExam = ({ examConfig, onComplete }: MockExamProps) => {
               {question.options.map((option, index) => (
                 <Button
                   key={index}
-                  variant={userAnswer === option ? "default" : "outline"}
+                  variant={userAnswer === index.toString() ? "default" : "outline"}
                   className="w-full text-left justify-start h-auto py-3 px-4"
-                  onClick={() => handleAnswerChange(option)}
+                  onClick={() => handleAnswerChange(index)}
                 >
                   <span className="font-medium mr-3">{String.fromCharCode(65 + index)}.</span>
-                  {option}
+                  <MarkdownContent content={option} inline />
                 </Button>
               ))}
             </div>
@@ -296,14 +267,14 @@ const MockExam = ({ examConfig, onComplete }: MockExamProps) => {
               <Button
                 variant={userAnswer === 'true' ? "default" : "outline"}
                 className="flex-1 py-3"
-                onClick={() => handleAnswerChange('true')}
+                onClick={() => handleAnswerChange(true)}
               >
                 True
               </Button>
               <Button
                 variant={userAnswer === 'false' ? "default" : "outline"}
                 className="flex-1 py-3"
-                onClick={() => handleAnswerChange('false')}
+                onClick={() => handleAnswerChange(false)}
               >
                 False
               </Button>
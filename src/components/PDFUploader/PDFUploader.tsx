@@ -5,7 +5,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Upload, FileText, Loader2, AlertCircle, CheckCircle, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { processEnhancedPDF, EnhancedPDFResult, PDFProcessingError, ProcessingProgress } from '@/lib/enhancedPdfProcessor';
+import { processEnhancedPDF, EnhancedPDFResult, ProcessingProgress } from '@/lib/enhancedPdfProcessor';
+import { PDFProcessingError } from '@/lib/pdf-error';
 
 interface EnhancedPDFUploaderProps {
   onUpload: (result: EnhancedPDFResult) => void;
@@ -0,0 +1,194 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Eye, EyeOff, History, RotateCcw, Save, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { EnhancedPDFChunk, PromptTemplateId, StoredPromptTemplate } from '@/types';
+import { loadPromptTemplate, PROMPT_TEMPLATES, renderPromptTemplate, resetPromptTemplate, savePromptTemplate, validatePromptTemplate } from '@/lib/prompt-templates';
+import { createQuestionGenerationPrompt } from '@/lib/geminiApi';
+import { countTokens } from '@/lib/tokenizer';
+
+const SAMPLE_CONTENT = `Photosynthesis is the process by which green plants convert light energy into chemical energy.
+It takes place in the chloroplasts and produces glucose and oxygen from carbon dioxide and water.`;
+const SAMPLE_QUESTION = 'Can you summarise the main idea of this section?';
+
+interface PromptTemplateSettingsProps {
+  chunks: EnhancedPDFChunk[]; // Sections of the loaded document, used for previews
+}
+
+const PromptTemplateSettings = ({ chunks }: PromptTemplateSettingsProps) => {
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('questions');
+  const [stored, setStored] = useState<StoredPromptTemplate>(() => loadPromptTemplate('questions'));
+  const [draft, setDraft] = useState(stored.current);
+  const [showPreview, setShowPreview] = useState(false);
+  const [previewChunkIndex, setPreviewChunkIndex] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const { toast } = useToast();
+
+  const definition = PROMPT_TEMPLATES[templateId];
+  const validation = useMemo(() => validatePromptTemplate(templateId, draft), [templateId, draft]);
+  const isDirty = draft !== stored.current;
+
+  const previewChunk = chunks[previewChunkIndex];
+  const preview = useMemo(() => {
+    if (!showPreview) return '';
+    const content = previewChunk?.content ?? SAMPLE_CONTENT;
+    return templateId === 'questions'
+      ? createQuestionGenerationPrompt(content, 'mcq', 5, 'intermediate', previewChunk?.heading, draft)
+      : renderPromptTemplate(draft, { content, question: SAMPLE_QUESTION });
+  }, [showPreview, previewChunk, templateId, draft]);
+
+  const handleTemplateChange = (id: PromptTemplateId) => {
+    const next = loadPromptTemplate(id);
+    setTemplateId(id);
+    setStored(next);
+    setDraft(next.current);
+  };
+
+  const handleSave = () => {
+    try {
+      const next = savePromptTemplate(templateId, draft);
+      setStored(next);
+      toast({ title: "Template saved", description: `${definition.label} template updated. New requests will use it.` });
+    } catch (error) {
+      toast({
+        title: "Template not saved",
+        description: error instanceof Error ? error.message : "The template is not valid.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReset = () => {
+    const next = resetPromptTemplate(templateId);
+    setStored(next);
+    setDraft(next.current);
+    toast({ title: "Default restored", description: "The previous version is still available in the history." });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Template</Label>
+        <Select value={templateId} onValueChange={(value) => handleTemplateChange(value as PromptTemplateId)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(PROMPT_TEMPLATES).map(template => (
+              <SelectItem key={template.id} value={template.id}>{template.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">{definition.description}</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {definition.variables.map(variable => (
+          <Badge key={variable.name} variant={variable.required ? 'default' : 'secondary'} title={variable.description}>
+            {`{${variable.name}}`}{variable.required && ' *'}
+          </Badge>
+        ))}
+      </div>
+
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={12}
+        className="font-mono text-xs"
+        spellCheck={false}
+      />
+
+      {(validation.errors.length > 0 || validation.warnings.length > 0) && (
+        <div className="space-y-1 text-xs">
+          {validation.errors.map(error => (
+            <p key={error} className="flex items-center text-red-600">
+              <XCircle className="w-3 h-3 mr-1 shrink-0" />
+              {error}
+            </p>
+          ))}
+          {validation.warnings.map(warning => (
+            <p key={warning} className="flex items-center text-yellow-600">
+              <AlertTriangle className="w-3 h-3 mr-1 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={handleSave} disabled={!isDirty || validation.errors.length > 0}>
+          <Save className="w-4 h-4 mr-2" />
+          Save Version
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setShowPreview(prev => !prev)}>
+          {showPreview ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+          {showPreview ? 'Hide Preview' : 'Preview'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setShowHistory(prev => !prev)} disabled={stored.history.length === 0}>
+          <History className="w-4 h-4 mr-2" />
+          History ({stored.history.length})
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleReset} disabled={stored.current === definition.defaultTemplate && !isDirty}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset to Default
+        </Button>
+      </div>
+
+      {showPreview && (
+        <div className="space-y-2">
+          {chunks.length > 0 ? (
+            <Select value={String(previewChunkIndex)} onValueChange={(value) => setPreviewChunkIndex(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {chunks.map((chunk, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    Section {index + 1} (pages {chunk.pageStart}–{chunk.pageEnd}){chunk.heading ? `: ${chunk.heading}` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-xs text-muted-foreground">Upload a document to preview with its real content. A short sample is used for now.</p>
+          )}
+          <ScrollArea className="h-64 rounded-md border">
+            <pre className="p-3 text-xs whitespace-pre-wrap font-mono">{preview}</pre>
+          </ScrollArea>
+          <p className="text-xs text-muted-foreground text-right">
+            {countTokens(preview).toLocaleString()} tokens{templateId === 'questions' && ' (5 multiple choice questions)'}
+          </p>
+        </div>
+      )}
+
+      {showHistory && stored.history.length > 0 && (
+        <ScrollArea className="h-48 rounded-md border">
+          <div className="divide-y">
+            {stored.history.map((version, index) => (
+              <div key={`${version.savedAt}-${index}`} className="flex items-center justify-between p-2 text-xs">
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {new Date(version.savedAt).toLocaleString()}
+                    {index === 0 && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                    {version.isDefault && <Badge variant="outline" className="ml-2">Default</Badge>}
+                  </p>
+                  <p className="text-muted-foreground truncate">{version.template.split('\n')[0]}</p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => setDraft(version.template)} disabled={version.template === draft}>
+                  Load
+                </Button>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateSettings;
@@ -0,0 +1,273 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Bot, Bug, Gauge, KeyRound, Link, Loader2, RefreshCw, SlidersHorizontal } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { AIProviderId, AIProviderSettings, MockFaultKind, MockProviderOptions, RequestLimits } from '@/types';
+import {
+  AI_PROVIDERS,
+  createAIProvider,
+  getDefaultProviderSettings,
+  getRequestLimits,
+  loadProviderApiKey,
+  MAX_CONCURRENCY,
+  MAX_REQUESTS_PER_MINUTE,
+} from '@/lib/ai-providers/provider-registry';
+import { DEFAULT_MOCK_OPTIONS } from '@/lib/ai-providers/mock-provider';
+import { DEFAULT_GENERATION_CONFIG } from '@/lib/ai-providers/generation-config';
+import GenerationConfigFields from './GenerationConfigFields';
+import { isAbortError } from '@/lib/utils/abort-utils';
+
+const MOCK_FAULT_OPTIONS: { value: MockFaultKind; label: string }[] = [
+  { value: 'none', label: 'No faults' },
+  { value: 'rate_limited', label: 'Rate limit (429)' },
+  { value: 'server_error', label: 'Server error (500)' },
+  { value: 'safety_block', label: 'Safety block' },
+  { value: 'malformed', label: 'Malformed text' },
+];
+
+interface ProviderSettingsProps {
+  settings: AIProviderSettings;
+  onChange: (settings: AIProviderSettings) => void;
+}
+
+const ProviderSettings = ({ settings, onChange }: ProviderSettingsProps) => {
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+  const definition = AI_PROVIDERS[settings.provider];
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleProviderChange = (provider: AIProviderId) => {
+    abortControllerRef.current?.abort();
+    setAvailableModels([]);
+    // Sampling and safety parameters carry over to the new provider
+    onChange({ ...getDefaultProviderSettings(provider, loadProviderApiKey(provider)), generation: settings.generation });
+  };
+
+  const handleRefreshModels = async () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsLoadingModels(true);
+    try {
+      const models = await createAIProvider(settings).listModels(abortController.signal);
+      setAvailableModels(models);
+      toast({
+        title: "Models loaded",
+        description: models.length > 0 ? `Found ${models.length} model(s) on ${definition.label}.` : "The server did not report any models.",
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Could not load models",
+        description: error instanceof Error ? error.message : "An unknown error occurred.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const mockOptions = { ...DEFAULT_MOCK_OPTIONS, ...settings.mock };
+  const updateMockOptions = (changes: Partial<MockProviderOptions>) => {
+    onChange({ ...settings, mock: { ...mockOptions, ...changes } });
+  };
+
+  // Limits belong to the provider: switching providers goes back to the new provider's defaults
+  const requestLimits = getRequestLimits(settings);
+  const updateRequestLimits = (changes: Partial<RequestLimits>) => {
+    onChange({ ...settings, rateLimits: { ...requestLimits, ...changes } });
+  };
+
+  const modelOptions = [...new Set([...availableModels, ...definition.suggestedModels])];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="flex items-center">
+          <Bot className="w-4 h-4 mr-2 text-blue-500" />
+          AI Provider
+        </Label>
+        <Select value={settings.provider} onValueChange={(value) => handleProviderChange(value as AIProviderId)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(AI_PROVIDERS).map(provider => (
+              <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {definition.hasEndpoint && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="ai-api-key" className="flex items-center">
+              <KeyRound className="w-4 h-4 mr-2 text-yellow-500" />
+              {definition.label} API Key{!definition.requiresApiKey && ' (optional)'}
+            </Label>
+            <Input
+              id="ai-api-key"
+              type="password"
+              placeholder={definition.requiresApiKey ? `Enter your ${definition.label} API Key` : "Leave empty if the server needs no key"}
+              value={settings.apiKey}
+              onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Your API key is stored in your browser's session storage for this session only.
+              It is sent directly to the selected provider from your browser.
+              {definition.apiKeyHelpUrl && (
+                <a href={definition.apiKeyHelpUrl} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline ml-1">Get an API Key</a>
+              )}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ai-base-url" className="flex items-center">
+              <Link className="w-4 h-4 mr-2 text-muted-foreground" />
+              Base URL
+            </Label>
+            <Input
+              id="ai-base-url"
+              value={settings.baseUrl}
+              placeholder={definition.defaultBaseUrl}
+              onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="ai-model">Model</Label>
+        <div className="flex space-x-2">
+          <Input
+            id="ai-model"
+            list="ai-model-options"
+            value={settings.model}
+            placeholder={definition.defaultModel}
+            onChange={(e) => onChange({ ...settings, model: e.target.value })}
+          />
+          <Button variant="outline" size="icon" onClick={handleRefreshModels} disabled={isLoadingModels}>
+            {isLoadingModels ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            <span className="sr-only">Load available models</span>
+          </Button>
+        </div>
+        <datalist id="ai-model-options">
+          {modelOptions.map(model => (
+            <option key={model} value={model} />
+          ))}
+        </datalist>
+      </div>
+
+      {settings.provider !== 'mock' && (
+        <div className="space-y-3 rounded-md border p-3">
+          <Label className="flex items-center">
+            <SlidersHorizontal className="w-4 h-4 mr-2 text-muted-foreground" />
+            Generation Parameters
+          </Label>
+          <GenerationConfigFields
+            config={settings.generation ?? DEFAULT_GENERATION_CONFIG}
+            provider={settings.provider}
+            onChange={(generation) => onChange({ ...settings, generation })}
+          />
+        </div>
+      )}
+
+      {settings.provider !== 'mock' && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="flex items-center justify-between">
+            <Label className="flex items-center">
+              <Gauge className="w-4 h-4 mr-2 text-muted-foreground" />
+              Request Limits
+            </Label>
+            {settings.rateLimits && (
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onChange({ ...settings, rateLimits: undefined })}>
+                Use defaults
+              </Button>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm">Parallel Requests: {requestLimits.concurrency}</Label>
+            <Slider
+              value={[requestLimits.concurrency]}
+              onValueChange={([concurrency]) => updateRequestLimits({ concurrency })}
+              min={1}
+              max={MAX_CONCURRENCY}
+              step={1}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ai-requests-per-minute" className="text-sm">Requests per Minute</Label>
+            <Input
+              id="ai-requests-per-minute"
+              type="number"
+              min={1}
+              max={MAX_REQUESTS_PER_MINUTE}
+              value={requestLimits.requestsPerMinute}
+              onChange={(e) => updateRequestLimits({ requestsPerMinute: Math.max(1, Math.min(MAX_REQUESTS_PER_MINUTE, Math.round(Number(e.target.value) || 1))) })}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Shared by exam generation and chat. Lower them if the provider keeps reporting rate limits; raise them for a paid plan or a faster local server.
+          </p>
+        </div>
+      )}
+
+      {settings.provider === 'mock' && (
+        <div className="space-y-4 rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">
+            The mock provider builds questions and answers from your document without calling any AI service.
+            Use fault injection to try out error handling.
+          </p>
+          <div className="space-y-2">
+            <Label className="flex items-center">
+              <Bug className="w-4 h-4 mr-2 text-red-500" />
+              Fault Injection
+            </Label>
+            <Select value={mockOptions.fault} onValueChange={(value) => updateMockOptions({ fault: value as MockFaultKind })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MOCK_FAULT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {mockOptions.fault !== 'none' && (
+            <div className="space-y-2">
+              <Label>Failing Requests: {Math.round(mockOptions.faultRate * 100)}%</Label>
+              <Slider
+                value={[Math.round(mockOptions.faultRate * 100)]}
+                onValueChange={([value]) => updateMockOptions({ faultRate: value / 100 })}
+                min={0}
+                max={100}
+                step={5}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="mock-latency">Simulated Latency (ms)</Label>
+            <Input
+              id="mock-latency"
+              type="number"
+              min={0}
+              max={10000}
+              value={mockOptions.latencyMs}
+              onChange={(e) => updateMockOptions({ latencyMs: Math.max(0, Math.min(10000, Math.round(Number(e.target.value) || 0))) })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
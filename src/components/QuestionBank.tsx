@@ -0,0 +1,374 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Library, Loader2, Play, Search, Shuffle, Tag, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { BankQuestion, Difficulty, GeminiQuestion, QuestionBankFilter, QuestionType } from '@/types';
+import {
+  deleteBankQuestions,
+  EMPTY_BANK_FILTER,
+  filterBankQuestions,
+  loadBankQuestions,
+  updateBankQuestionTags,
+} from '@/lib/question-bank';
+import MarkdownContent from '@/components/MarkdownContent';
+
+interface QuestionBankProps {
+  onStartExam: (questions: GeminiQuestion[], timeLimitMinutes: number) => void;
+}
+
+const ALL = '__all__'; // Select items cannot have an empty value
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple Choice',
+  fillblank: 'Fill in the Blank',
+  truefalse: 'True/False',
+};
+
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  basic: 'Basic',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+const formatSource = (entry: BankQuestion): string => {
+  const { documentName, pageStart, pageEnd } = entry.source;
+  if (pageStart === undefined) return documentName;
+  return `${documentName}, ${pageStart === pageEnd ? `p. ${pageStart}` : `pp. ${pageStart}–${pageEnd}`}`;
+};
+
+const formatStats = (entry: BankQuestion): string => {
+  const { timesUsed, timesCorrect } = entry.stats;
+  if (timesUsed === 0) return 'Not used yet';
+  return `Used ${timesUsed}× · ${Math.round((timesCorrect / timesUsed) * 100)}% correct`;
+};
+
+// Fisher-Yates on a copy
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const QuestionBank = ({ onStartExam }: QuestionBankProps) => {
+  const [entries, setEntries] = useState<BankQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<QuestionBankFilter>(EMPTY_BANK_FILTER);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [randomCount, setRandomCount] = useState(10);
+  const [timeLimit, setTimeLimit] = useState([30]);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await loadBankQuestions());
+      setLoadError(null);
+    } catch (error) {
+      console.warn('Failed to load the question bank:', error);
+      setLoadError(error instanceof Error ? error.message : 'The question bank could not be opened.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const documents = useMemo(() => [...new Set(entries.map(entry => entry.source.documentName))].sort(), [entries]);
+  const tags = useMemo(() => [...new Set(entries.flatMap(entry => entry.tags))].sort(), [entries]);
+  const filtered = useMemo(() => filterBankQuestions(entries, filter), [entries, filter]);
+
+  // Selection only counts questions that are still visible
+  const selected = filtered.filter(entry => selectedIds.includes(entry.id));
+  const allFilteredSelected = filtered.length > 0 && selected.length === filtered.length;
+
+  const updateFilter = (changes: Partial<QuestionBankFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, id] : prev.filter(selectedId => selectedId !== id)));
+  };
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? filtered.map(entry => entry.id) : []);
+  };
+
+  const runBankUpdate = async (update: () => Promise<void>, failureTitle: string): Promise<boolean> => {
+    let succeeded = true;
+    try {
+      await update();
+    } catch (error) {
+      succeeded = false;
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "An unknown error occurred.",
+        variant: "destructive",
+      });
+    }
+    await refresh();
+    return succeeded;
+  };
+
+  const handleAddTag = async () => {
+    const tag = tagInput.trim();
+    if (!tag) return;
+    await runBankUpdate(() => updateBankQuestionTags(selected.map(entry => entry.id), current => [...current, tag]), "Could not add tag");
+    setTagInput('');
+  };
+
+  const handleRemoveTag = (id: string, tag: string) => {
+    runBankUpdate(() => updateBankQuestionTags([id], current => current.filter(t => t !== tag)), "Could not remove tag");
+  };
+
+  const handleDelete = async () => {
+    const ids = selected.map(entry => entry.id);
+    const deleted = await runBankUpdate(() => deleteBankQuestions(ids), "Could not delete questions");
+    setIsConfirmingDelete(false);
+    if (!deleted) return;
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+    toast({ title: "Questions deleted", description: `${ids.length} question(s) were removed from the bank.` });
+  };
+
+  const handleStartSelected = () => {
+    onStartExam(selected.map(entry => entry.question), timeLimit[0]);
+  };
+
+  const handleStartRandom = () => {
+    onStartExam(shuffle(filtered).slice(0, randomCount).map(entry => entry.question), timeLimit[0]);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-bold">Question Bank</h2>
+        <p className="text-muted-foreground">Questions you approved are saved here. Build new exams from them without generating again.</p>
+      </div>
+
+      {loadError && (
+        <Card className="border-red-200 bg-red-50 dark:bg-red-900/20 dark:border-red-800">
+          <CardContent className="p-4 text-sm">{loadError}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Play className="w-5 h-5" />
+            <span>Assemble Exam</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-3">
+            <Label>Time Limit (minutes): {timeLimit[0]}</Label>
+            <Slider value={timeLimit} onValueChange={setTimeLimit} min={10} max={120} step={5} className="w-full" />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button onClick={handleStartSelected} disabled={selected.length === 0}>
+              <Play className="w-4 h-4 mr-2" />
+              Start with {selected.length} Selected
+            </Button>
+            <span className="text-sm text-muted-foreground">or</span>
+            <Input
+              type="number"
+              min={1}
+              max={Math.max(1, filtered.length)}
+              value={randomCount}
+              onChange={(e) => setRandomCount(Math.max(1, Number(e.target.value) || 1))}
+              className="w-20"
+            />
+            <Button variant="outline" onClick={handleStartRandom} disabled={filtered.length === 0}>
+              <Shuffle className="w-4 h-4 mr-2" />
+              Random from {filtered.length} Filtered
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Library className="w-5 h-5" />
+            <span>Saved Questions ({entries.length})</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-5 gap-3">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={filter.search}
+                onChange={(e) => updateFilter({ search: e.target.value })}
+                placeholder="Search questions, answers and tags"
+                className="pl-8"
+              />
+            </div>
+            <Select value={filter.documentName ?? ALL} onValueChange={(value) => updateFilter({ documentName: value === ALL ? null : value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All documents</SelectItem>
+                {documents.map(document => (
+                  <SelectItem key={document} value={document}>{document}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filter.type ?? ALL} onValueChange={(value) => updateFilter({ type: value === ALL ? null : value as QuestionType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filter.difficulty ?? ALL} onValueChange={(value) => updateFilter({ difficulty: value === ALL ? null : value as Difficulty })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All difficulties</SelectItem>
+                {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Tag className="w-4 h-4 text-muted-foreground" />
+              {tags.map(tag => (
+                <Badge
+                  key={tag}
+                  variant={filter.tag === tag ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => updateFilter({ tag: filter.tag === tag ? null : tag })}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">{selected.length} selected</span>
+            <Input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && selected.length > 0 && handleAddTag()}
+              placeholder="Tag name"
+              className="w-40"
+            />
+            <Button variant="outline" size="sm" onClick={handleAddTag} disabled={selected.length === 0 || !tagInput.trim()}>
+              <Tag className="w-4 h-4 mr-2" />
+              Tag Selected
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsConfirmingDelete(true)} disabled={selected.length === 0}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Selected
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox checked={allFilteredSelected} onCheckedChange={(checked) => handleSelectAll(checked === true)} />
+                </TableHead>
+                <TableHead>Question</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Usage</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                    {entries.length === 0
+                      ? 'The bank is empty. Questions are saved when you start an exam from the review screen.'
+                      : 'No questions match the filters.'}
+                  </TableCell>
+                </TableRow>
+              )}
+              {filtered.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(entry.id)}
+                      onCheckedChange={(checked) => toggleSelected(entry.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    <MarkdownContent content={entry.question.question} className="text-sm" />
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary">{QUESTION_TYPE_LABELS[entry.question.type]}</Badge>
+                      {entry.question.difficulty && <Badge variant="outline">{DIFFICULTY_LABELS[entry.question.difficulty]}</Badge>}
+                      {entry.question.topic && <Badge variant="outline">{entry.question.topic}</Badge>}
+                      {entry.tags.map(tag => (
+                        <Badge key={tag} className="pr-1">
+                          {tag}
+                          <button type="button" className="ml-1" onClick={() => handleRemoveTag(entry.id, tag)}>
+                            <X className="w-3 h-3" />
+                            <span className="sr-only">Remove tag {tag}</span>
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{formatSource(entry)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{formatStats(entry)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{new Date(entry.createdAt).toLocaleDateString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {selected.length} question(s)?</DialogTitle>
+            <DialogDescription>
+              The questions and their usage stats are removed from the bank. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button variant="destructive" onClick={handleDelete}>Delete</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default QuestionBank;
@@ -0,0 +1,443 @@
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ArrowDown,
+  ArrowUp,
+  Check,
+  ClipboardCheck,
+  Flag,
+  Library,
+  Loader2,
+  Pencil,
+  Play,
+  Plus,
+  RefreshCw,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldQuestion,
+  Trash2,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { GeminiQuestion, QuestionType, QuestionVerification, ReviewQuestion, VerificationIssue } from '@/types';
+import { createReviewQuestion, createReviewQuestions, getQuestionIssues, moveItem, syncMcqAnswer } from '@/lib/utils/question-review-utils';
+import { formatCorrectAnswer, optionIndexToLetter } from '@/lib/utils/grading-utils';
+import { handleError } from '@/lib/utils/error-utils';
+import { isAbortError } from '@/lib/utils/abort-utils';
+import MarkdownContent from '@/components/MarkdownContent';
+
+interface QuestionReviewProps {
+  questions: GeminiQuestion[];
+  timeLimitMinutes: number;
+  onRegenerate: (question: GeminiQuestion, signal: AbortSignal) => Promise<GeminiQuestion>;
+  onStartExam: (questions: GeminiQuestion[]) => void;
+  onSaveToBank: (questions: GeminiQuestion[]) => Promise<void>;
+  onQuestionChange: (id: string) => void; // Called when a question is edited or regenerated, so a saved copy no longer matches it
+  onDiscard: () => void;
+}
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple Choice',
+  fillblank: 'Fill in the Blank',
+  truefalse: 'True/False',
+};
+
+const VERIFICATION_ISSUE_LABELS: Record<VerificationIssue, string> = {
+  answer_mismatch: 'The verifier chose a different answer',
+  ambiguous: 'More than one answer could be defended',
+  unsupported: 'The answer is not supported by the source',
+  low_confidence: 'Low confidence in the answer key',
+};
+
+const MAX_MCQ_OPTIONS = 6;
+
+const formatConfidence = (verification: QuestionVerification): string => (
+  verification.confidence === null ? '' : ` ${Math.round(verification.confidence * 100)}%`
+);
+
+const QuestionReview = ({ questions, timeLimitMinutes, onRegenerate, onStartExam, onSaveToBank, onQuestionChange, onDiscard }: QuestionReviewProps) => {
+  const [items, setItems] = useState<ReviewQuestion[]>(() => createReviewQuestions(questions));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [regeneratingIds, setRegeneratingIds] = useState<string[]>([]);
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // One controller per question being regenerated, so leaving the review stops every request still running
+  const regenerationsRef = useRef(new Map<string, AbortController>());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const regenerations = regenerationsRef.current;
+    return () => regenerations.forEach(controller => controller.abort());
+  }, []);
+
+  const approvedQuestions = items.filter(item => item.approved).map(item => item.question);
+  const flaggedCount = items.filter(item => item.flagged).length;
+  const visibleItems = showFlaggedOnly ? items.filter(item => item.flagged) : items;
+
+  const updateItem = (id: string, update: (item: ReviewQuestion) => ReviewQuestion) => {
+    setItems(prev => prev.map(item => (item.question.id === id ? update(item) : item)));
+  };
+
+  // Edits that make a question unusable also take it out of the exam.
+  // An edited question is no longer the one that was verified, so its verification is dropped.
+  const updateQuestion = (id: string, changes: Partial<GeminiQuestion>) => {
+    updateItem(id, item => {
+      const question = syncMcqAnswer({ ...item.question, ...changes, verification: undefined });
+      return { ...item, question, approved: item.approved && getQuestionIssues(question).length === 0 };
+    });
+    onQuestionChange(id);
+  };
+
+  const handleMove = (id: string, offset: number) => {
+    setItems(prev => {
+      const index = prev.findIndex(item => item.question.id === id);
+      return moveItem(prev, index, index + offset);
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    regenerationsRef.current.get(id)?.abort();
+    setItems(prev => prev.filter(item => item.question.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const handleRegenerate = async (question: GeminiQuestion) => {
+    const abortController = new AbortController();
+    regenerationsRef.current.set(question.id, abortController);
+    setRegeneratingIds(prev => [...prev, question.id]);
+    try {
+      const replacement = await onRegenerate(question, abortController.signal);
+      updateItem(question.id, () => createReviewQuestion(replacement));
+      onQuestionChange(question.id);
+      if (editingId === question.id) setEditingId(null);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      const userError = handleError(error, { action: 'regenerateQuestion', questionId: question.id });
+      toast({
+        title: `Could not regenerate question: ${userError.title}`,
+        description: userError.message,
+        variant: "destructive",
+      });
+    } finally {
+      regenerationsRef.current.delete(question.id);
+      setRegeneratingIds(prev => prev.filter(id => id !== question.id));
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveToBank(approvedQuestions);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerateFlagged = () => {
+    items.filter(item => item.flagged).forEach(item => handleRegenerate(item.question));
+  };
+
+  const handleApproveAll = () => {
+    setItems(prev => prev.map(item => ({ ...item, approved: getQuestionIssues(item.question).length === 0 })));
+  };
+
+  const renderEditor = (question: GeminiQuestion) => {
+    const options = question.options ?? [];
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${question.id}-stem`}>Question</Label>
+          <Textarea
+            id={`${question.id}-stem`}
+            value={question.question}
+            onChange={(e) => updateQuestion(question.id, { question: e.target.value })}
+            rows={3}
+          />
+        </div>
+
+        {question.type === 'mcq' && (
+          <div className="space-y-2">
+            <Label>Options (select the correct one)</Label>
+            <RadioGroup
+              value={question.correctOptionIndex !== undefined ? String(question.correctOptionIndex) : undefined}
+              onValueChange={(value) => updateQuestion(question.id, { correctOptionIndex: Number(value) })}
+            >
+              {options.map((option, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <RadioGroupItem value={String(index)} id={`${question.id}-option-${index}`} />
+                  <Label htmlFor={`${question.id}-option-${index}`} className="w-4">{optionIndexToLetter(index)}</Label>
+                  <Input
+                    value={option}
+                    onChange={(e) => updateQuestion(question.id, { options: options.map((o, i) => (i === index ? e.target.value : o)) })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={options.length <= 2}
+                    onClick={() => {
+                      const correct = question.correctOptionIndex;
+                      updateQuestion(question.id, {
+                        options: options.filter((_, i) => i !== index),
+                        // Keep pointing at the same option; removing the correct one clears the selection
+                        correctOptionIndex: correct === undefined || correct === index ? undefined : correct > index ? correct - 1 : correct,
+                      });
+                    }}
+                  >
+                    <X className="w-4 h-4" />
+                    <span className="sr-only">Remove option</span>
+                  </Button>
+                </div>
+              ))}
+            </RadioGroup>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={options.length >= MAX_MCQ_OPTIONS}
+              onClick={() => updateQuestion(question.id, { options: [...options, ''] })}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Option
+            </Button>
+          </div>
+        )}
+
+        {question.type === 'truefalse' && (
+          <div className="space-y-2">
+            <Label>Answer</Label>
+            <Select value={String(question.answer)} onValueChange={(value) => updateQuestion(question.id, { answer: value === 'true' })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose the answer" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="true">True</SelectItem>
+                <SelectItem value="false">False</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {question.type === 'fillblank' && (
+          <div className="space-y-2">
+            <Label htmlFor={`${question.id}-answer`}>Answer</Label>
+            <Input
+              id={`${question.id}-answer`}
+              value={String(question.answer)}
+              onChange={(e) => updateQuestion(question.id, { answer: e.target.value })}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor={`${question.id}-explanation`}>Explanation</Label>
+          <Textarea
+            id={`${question.id}-explanation`}
+            value={question.explanation}
+            onChange={(e) => updateQuestion(question.id, { explanation: e.target.value })}
+            rows={2}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderQuestion = (question: GeminiQuestion) => (
+    <div className="space-y-2">
+      <MarkdownContent content={question.question} />
+      {question.type === 'mcq' && (
+        <ol className="space-y-1 text-sm">
+          {(question.options ?? []).map((option, index) => (
+            <li key={index} className={index === question.correctOptionIndex ? 'text-green-600 font-medium' : ''}>
+              {optionIndexToLetter(index)}. <MarkdownContent content={option} inline />
+            </li>
+          ))}
+        </ol>
+      )}
+      {question.type !== 'mcq' && (
+        <p className="text-sm">
+          <span className="font-medium">Answer: </span>
+          <span className="text-green-600"><MarkdownContent content={formatCorrectAnswer(question)} inline /></span>
+        </p>
+      )}
+      {question.explanation && (
+        <MarkdownContent content={question.explanation} className="text-sm text-muted-foreground" />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-bold">Review Questions</h2>
+        <p className="text-muted-foreground">Edit, reorder or replace questions. Only approved questions are included in the exam and saved to the question bank.</p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span><span className="font-semibold">{approvedQuestions.length}</span> of {items.length} approved</span>
+            <span className="flex items-center text-orange-600">
+              <Flag className="w-4 h-4 mr-1" />
+              {flaggedCount} flagged
+            </span>
+            <div className="flex items-center space-x-2">
+              <Switch id="review-flagged-only" checked={showFlaggedOnly} onCheckedChange={setShowFlaggedOnly} />
+              <Label htmlFor="review-flagged-only">Flagged only</Label>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={onDiscard}>
+              Discard
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleRegenerateFlagged} disabled={flaggedCount === 0 || regeneratingIds.length > 0}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Regenerate Flagged
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleApproveAll}>
+              <ClipboardCheck className="w-4 h-4 mr-2" />
+              Approve All Valid
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleSave} disabled={approvedQuestions.length === 0 || isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Library className="w-4 h-4 mr-2" />}
+              Save to Bank
+            </Button>
+            <Button size="sm" onClick={() => onStartExam(approvedQuestions)} disabled={approvedQuestions.length === 0 || isSaving}>
+              <Play className="w-4 h-4 mr-2" />
+              Start Exam ({approvedQuestions.length} questions, {timeLimitMinutes} min)
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {visibleItems.length === 0 && (
+        <p className="text-center text-sm text-muted-foreground">
+          {showFlaggedOnly ? 'No questions are flagged.' : 'All questions were deleted. Go back to generate new ones.'}
+        </p>
+      )}
+
+      {visibleItems.map(item => {
+        const { question } = item;
+        const index = items.indexOf(item);
+        const issues = getQuestionIssues(question);
+        const { verification } = question;
+        const isEditing = editingId === question.id;
+        const isRegenerating = regeneratingIds.includes(question.id);
+
+        return (
+          <Card
+            key={question.id}
+            className={`border-l-4 ${item.flagged ? 'border-l-orange-500' : item.approved ? 'border-l-green-500' : 'border-l-gray-200'}`}
+          >
+            <CardHeader className="pb-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <CardTitle className="text-base flex flex-wrap items-center gap-2">
+                  <span>Question {index + 1}</span>
+                  <Badge variant="secondary">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                  {question.topic && <Badge variant="outline">{question.topic}</Badge>}
+                  {question.difficulty && <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>}
+                  {verification?.status === 'verified' && (
+                    <Badge variant="outline" className="text-green-700 border-green-300" title={verification.reason}>
+                      <ShieldCheck className="w-3 h-3 mr-1" />
+                      Verified{formatConfidence(verification)}
+                    </Badge>
+                  )}
+                  {verification?.status === 'flagged' && (
+                    <Badge variant="outline" className="text-orange-700 border-orange-300" title={verification.reason}>
+                      <ShieldAlert className="w-3 h-3 mr-1" />
+                      Check answer{formatConfidence(verification)}
+                    </Badge>
+                  )}
+                  {verification?.status === 'failed' && (
+                    <Badge variant="outline" className="text-muted-foreground" title={verification.reason}>
+                      <ShieldQuestion className="w-3 h-3 mr-1" />
+                      Not verified
+                    </Badge>
+                  )}
+                </CardTitle>
+                <div className="flex items-center">
+                  <Button variant="ghost" size="icon" onClick={() => handleMove(question.id, -1)} disabled={index === 0}>
+                    <ArrowUp className="w-4 h-4" />
+                    <span className="sr-only">Move up</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleMove(question.id, 1)} disabled={index === items.length - 1}>
+                    <ArrowDown className="w-4 h-4" />
+                    <span className="sr-only">Move down</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setEditingId(isEditing ? null : question.id)} disabled={isRegenerating}>
+                    {isEditing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                    <span className="sr-only">{isEditing ? 'Done editing' : 'Edit'}</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleRegenerate(question)} disabled={isRegenerating}>
+                    {isRegenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                    <span className="sr-only">Regenerate</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateItem(question.id, prev => ({ ...prev, flagged: !prev.flagged }))}
+                    className={item.flagged ? 'text-orange-600' : ''}
+                  >
+                    <Flag className="w-4 h-4" />
+                    <span className="sr-only">{item.flagged ? 'Remove flag' : 'Flag for quality'}</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(question.id)}>
+                    <Trash2 className="w-4 h-4" />
+                    <span className="sr-only">Delete</span>
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {isEditing ? renderEditor(question) : renderQuestion(question)}
+
+              {verification?.status === 'flagged' && (
+                <div className="space-y-1 text-xs text-orange-700">
+                  {verification.issues.map(issue => (
+                    <p key={issue} className="flex items-center">
+                      <ShieldAlert className="w-3 h-3 mr-1 shrink-0" />
+                      {VERIFICATION_ISSUE_LABELS[issue]}
+                      {issue === 'answer_mismatch' && verification.verifierAnswer ? ` (it answered "${verification.verifierAnswer}")` : ''}
+                    </p>
+                  ))}
+                  {verification.reason && <p className="text-muted-foreground">{verification.reason}</p>}
+                </div>
+              )}
+
+              {issues.length > 0 && (
+                <div className="space-y-1 text-xs">
+                  {issues.map(issue => (
+                    <p key={issue} className="flex items-center text-red-600">
+                      <XCircle className="w-3 h-3 mr-1 shrink-0" />
+                      {issue}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${question.id}-approved`}
+                  checked={item.approved}
+                  disabled={issues.length > 0}
+                  onCheckedChange={(checked) => updateItem(question.id, prev => ({ ...prev, approved: checked === true }))}
+                />
+                <Label htmlFor={`${question.id}-approved`} className="text-sm">Include in exam</Label>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QuestionReview;
@@ -0,0 +1,103 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { AlertTriangle, Search } from 'lucide-react';
+import { EnhancedPDFChunk, RetrievalResult, RetrievalSettings } from '@/types';
+import { formatPageRanges } from '@/lib/utils/topic-utils';
+
+interface RetrievalDebugPanelProps {
+  settings: RetrievalSettings;
+  onSettingsChange: (settings: RetrievalSettings) => void;
+  chunks: EnhancedPDFChunk[];
+  result: RetrievalResult | null; // Retrieval behind the selected answer
+  disabled?: boolean;
+}
+
+const MAX_TOP_K = 10;
+const EXCERPT_CHARS = 140;
+
+const formatScore = (score: number): string => score.toFixed(2);
+
+const RetrievalDebugPanel = ({ settings, onSettingsChange, chunks, result, disabled }: RetrievalDebugPanelProps) => {
+  const maxTopK = Math.max(1, Math.min(MAX_TOP_K, chunks.length));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Search className="w-5 h-5" />
+          <span>Retrieval</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Each question is answered from the most relevant of the {chunks.length} indexed chunk(s), not the whole document.
+        </p>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Chunks per question: {Math.min(settings.topK, maxTopK)}</Label>
+          <Slider
+            value={[Math.min(settings.topK, maxTopK)]}
+            onValueChange={([topK]) => onSettingsChange({ ...settings, topK })}
+            min={1}
+            max={maxTopK}
+            step={1}
+            disabled={disabled || chunks.length <= 1}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="retrieval-embeddings" className="text-sm">Use embeddings</Label>
+          <Switch
+            id="retrieval-embeddings"
+            checked={settings.useEmbeddings}
+            onCheckedChange={(useEmbeddings) => onSettingsChange({ ...settings, useEmbeddings })}
+            disabled={disabled}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Adds semantic similarity from the AI provider's embedding model to keyword (BM25) ranking.
+        </p>
+
+        <div className="pt-4 border-t space-y-2">
+          {!result ? (
+            <p className="text-xs text-muted-foreground">Ask a question to see which chunks were used.</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-medium">Used for this answer</span>
+                <Badge variant="secondary" className="text-xs">{result.method === 'hybrid' ? 'BM25 + embeddings' : 'BM25'}</Badge>
+              </div>
+              {result.embeddingError && (
+                <p className="flex items-start text-xs text-orange-600">
+                  <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+                  Embeddings unavailable, keyword ranking only: {result.embeddingError}
+                </p>
+              )}
+              {result.chunks.map(chunk => (
+                <div key={chunk.chunkIndex} className="rounded border p-2 space-y-1 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      Chunk {chunk.chunkIndex + 1} • {formatPageRanges([{ start: chunk.pageStart, end: chunk.pageEnd }])}
+                    </span>
+                    <span className="text-muted-foreground">{formatScore(chunk.score)}</span>
+                  </div>
+                  {chunk.heading && <p className="text-muted-foreground">{chunk.heading}</p>}
+                  <p className="text-muted-foreground">
+                    BM25 {formatScore(chunk.bm25Score)}
+                    {chunk.embeddingScore !== undefined && ` • similarity ${formatScore(chunk.embeddingScore)}`}
+                  </p>
+                  <p className="line-clamp-3">{chunks[chunk.chunkIndex]?.content.slice(0, EXCERPT_CHARS)}</p>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RetrievalDebugPanel;
@@ -0,0 +1,205 @@
+import { AIErrorCode, AIProviderId } from '../../types';
+import { isAbortError } from '../utils/abort-utils';
+
+export interface AIErrorDetails {
+  provider: AIProviderId;
+  status?: number; // HTTP status of the failed response, if any
+  retryAfterMs?: number | null; // Server-provided retry hint
+  cause?: unknown;
+}
+
+/**
+ * Base class of every AI provider error. Provider-specific failures are mapped onto the
+ * subclasses below so callers can switch on the error type instead of its message.
+ */
+export class AIProviderError extends Error {
+  readonly code: AIErrorCode;
+  readonly provider: AIProviderId;
+  readonly status?: number;
+  readonly retryAfterMs: number | null;
+  readonly retryable: boolean; // True when the same request may succeed if sent again later
+
+  constructor(code: AIErrorCode, message: string, details: AIErrorDetails, retryable = false) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.code = code;
+    this.provider = details.provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs ?? null;
+    this.retryable = retryable;
+    if (details.cause !== undefined) (this as { cause?: unknown }).cause = details.cause;
+  }
+}
+
+export class MissingApiKeyError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('missing_key', message, details);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class InvalidApiKeyError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('invalid_key', message, details);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class QuotaExceededError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('quota_exceeded', message, details);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class RateLimitError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('rate_limited', message, details, true);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('safety_block', message, details);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class BadRequestError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('bad_request', message, details);
+    this.name = 'BadRequestError';
+  }
+}
+
+export class ModelNotFoundError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('model_not_found', message, details);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+export class ServerError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('server_error', message, details, true);
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('network', message, details, true);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The service answered, but not with the expected response envelope */
+export class MalformedResponseError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('malformed_response', message, details);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/** The response text could not be turned into valid questions, even after repair attempts */
+export class ResponseParseError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('parse_failure', message, details);
+    this.name = 'ResponseParseError';
+  }
+}
+
+export class UnknownAIError extends AIProviderError {
+  constructor(message: string, details: AIErrorDetails) {
+    super('unknown', message, details);
+    this.name = 'UnknownAIError';
+  }
+}
+
+/**
+ * Creates the error class matching a code, for mappings that only know the code
+ * @param code The error code
+ * @param message User-facing message
+ * @param details Provider details
+ * @returns The typed error
+ */
+export const createAIError = (code: AIErrorCode, message: string, details: AIErrorDetails): AIProviderError => {
+  switch (code) {
+    case 'missing_key': return new MissingApiKeyError(message, details);
+    case 'invalid_key': return new InvalidApiKeyError(message, details);
+    case 'quota_exceeded': return new QuotaExceededError(message, details);
+    case 'rate_limited': return new RateLimitError(message, details);
+    case 'safety_block': return new SafetyBlockError(message, details);
+    case 'bad_request': return new BadRequestError(message, details);
+    case 'model_not_found': return new ModelNotFoundError(message, details);
+    case 'server_error': return new ServerError(message, details);
+    case 'network': return new NetworkError(message, details);
+    case 'malformed_response': return new MalformedResponseError(message, details);
+    case 'parse_failure': return new ResponseParseError(message, details);
+    default: return new UnknownAIError(message, details);
+  }
+};
+
+/**
+ * Maps an HTTP status to the shared error code; providers refine it from the error body
+ * @param status The response status
+ * @returns The matching error code
+ */
+export const errorCodeForStatus = (status: number): AIErrorCode => {
+  if (status === 401 || status === 403) return 'invalid_key';
+  if (status === 404) return 'model_not_found';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'bad_request';
+  return 'unknown';
+};
+
+/**
+ * Reads the error message from a failed response body, which providers shape as
+ * `{ error: { message } }` (Gemini, OpenAI) or `{ error: "..." }` (Ollama)
+ * @param errorBody The parsed error body
+ * @returns The message, or an empty string
+ */
+export const readErrorMessage = (errorBody: unknown): string => {
+  const error = (errorBody as { error?: unknown })?.error;
+  if (typeof error === 'string') return error;
+  const message = (error as { message?: unknown })?.message;
+  return typeof message === 'string' ? message : '';
+};
+
+/**
+ * Parses a failed response body, falling back to the status text when it is not JSON
+ * @param response The failed response
+ * @returns The parsed body
+ */
+export const readErrorBody = async (response: Response): Promise<unknown> => {
+  try {
+    return await response.json();
+  } catch {
+    return { error: { message: response.statusText } };
+  }
+};
+
+/**
+ * Runs a fetch and turns connection failures into `network` errors. AbortErrors pass through untouched.
+ * @param provider The provider making the request
+ * @param request The fetch to run
+ * @param hint Optional advice appended to the network error message
+ * @returns The response
+ */
+export const fetchOrNetworkError = async (
+  provider: AIProviderId,
+  request: () => Promise<Response>,
+  hint = 'Please check your internet connection and try again.'
+): Promise<Response> => {
+  try {
+    return await request();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(
+      `Failed to connect to the AI service. ${hint} (${error instanceof Error ? error.message : String(error)})`,
+      { provider, cause: error }
+    );
+  }
+};
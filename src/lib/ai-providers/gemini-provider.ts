@@ -0,0 +1,195 @@
+import { AIGenerateOptions, AIProvider, AIProviderSettings } from '../../types';
+import { parseRetryAfterMs } from '../request-scheduler';
+import { DEFAULT_GENERATION_CONFIG, toGeminiSafetySettings } from './generation-config';
+import { parseStreamEvent, readServerSentEvents } from './stream-utils';
+import { AIProviderError, BadRequestError, createAIError, errorCodeForStatus, fetchOrNetworkError, InvalidApiKeyError, MalformedResponseError, ModelNotFoundError, QuotaExceededError, RateLimitError, readErrorBody, readErrorMessage, SafetyBlockError, ServerError } from './ai-error';
+
+export const GEMINI_DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+// Using gemini-1.5-flash for potentially faster and cheaper responses, though quality might vary. Adjust as needed.
+export const GEMINI_DEFAULT_MODEL = 'gemini-1.5-flash-latest';
+export const GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+interface GeminiResponse {
+  promptFeedback?: { blockReason?: string };
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+}
+
+const toGeminiError = (status: number, errorBody: unknown, retryAfterMs: number | null): AIProviderError => {
+  const detail = readErrorMessage(errorBody);
+  const details = { provider: 'gemini' as const, status, retryAfterMs };
+
+  if (status === 400) {
+    if (detail.includes('API key not valid')) {
+      return new InvalidApiKeyError('The provided API key is not valid. Please check your API key and try again.', details);
+    }
+    if (detail.includes('billing')) {
+      return new QuotaExceededError('There might be an issue with billing for your API key or the free tier is not available in your region. Please check your Google AI Studio project settings.', details);
+    }
+    return new BadRequestError(`There was an issue with the request sent to the AI service (Error 400). Details: ${detail || 'Invalid request.'}`, details);
+  }
+  if (status === 403) {
+    return new InvalidApiKeyError('The API key does not have the required permissions, or is incorrect (Error 403). Please check your API key.', details);
+  }
+  if (status === 404) {
+    return new ModelNotFoundError(`The selected Gemini model was not found (Error 404). Please choose another model in Settings. ${detail}`.trim(), details);
+  }
+  if (status === 429) {
+    return new RateLimitError('The AI service is currently busy or rate limits have been exceeded (Error 429). Please try again in a few moments.', details);
+  }
+  if (status >= 500) {
+    return new ServerError(`The AI service encountered a temporary issue (Error ${status}). Please try again shortly.`, details);
+  }
+  return createAIError(errorCodeForStatus(status), `API Error (${status}): ${detail || 'An unknown error occurred with the AI service.'}`, details);
+};
+
+/**
+ * Google Gemini client using the REST `generateContent` and `streamGenerateContent` endpoints
+ * @param settings Provider settings; the API key is sent as a query parameter
+ * @returns The Gemini provider
+ */
+export const createGeminiProvider = (settings: AIProviderSettings): AIProvider => {
+  const baseUrl = (settings.baseUrl || GEMINI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = settings.model || GEMINI_DEFAULT_MODEL;
+  const generation = settings.generation ?? DEFAULT_GENERATION_CONFIG;
+  const safetySettings = toGeminiSafetySettings(generation);
+
+  const buildRequestBody = (prompt: string, options: AIGenerateOptions): string => JSON.stringify({
+    contents: [
+      ...(options.history ?? []).map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] })),
+      { role: 'user', parts: [{ text: prompt }] },
+    ],
+    generationConfig: {
+      ...(generation.temperature !== null && { temperature: generation.temperature }),
+      ...(generation.topP !== null && { topP: generation.topP }),
+      ...(generation.maxOutputTokens !== null && { maxOutputTokens: generation.maxOutputTokens }),
+      ...(options.responseSchema && {
+        responseMimeType: 'application/json',
+        responseSchema: options.responseSchema,
+      }),
+    },
+    // Categories left on "Provider default" are omitted so the API key's own settings apply
+    ...(safetySettings.length > 0 && { safetySettings }),
+  });
+
+  const post = async (method: 'generateContent' | 'streamGenerateContent', prompt: string, options: AIGenerateOptions): Promise<Response> => {
+    const query = method === 'streamGenerateContent' ? `alt=sse&key=${settings.apiKey}` : `key=${settings.apiKey}`;
+    const response = await fetchOrNetworkError('gemini', () => fetch(`${baseUrl}/models/${model}:${method}?${query}`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: buildRequestBody(prompt, options),
+    }));
+
+    if (!response.ok) {
+      const errorData = await readErrorBody(response);
+      console.error('Gemini API Error Response:', { status: response.status, data: errorData });
+      throw toGeminiError(response.status, errorData, parseRetryAfterMs(response.headers.get('Retry-After'), errorData));
+    }
+    return response;
+  };
+
+  // Handle cases where the prompt was blocked due to safety settings
+  const checkPromptFeedback = (data: GeminiResponse) => {
+    if (data.promptFeedback?.blockReason) {
+      console.warn('Gemini API: Prompt blocked due to safety settings:', data.promptFeedback.blockReason);
+      throw new SafetyBlockError(`Your request was blocked by the AI's safety filters (Reason: ${data.promptFeedback.blockReason}). Please revise your input.`, { provider: 'gemini' });
+    }
+  };
+
+  // Explains why a candidate ended without text
+  const checkFinishReason = (finishReason: string | undefined) => {
+    if (finishReason === 'SAFETY') {
+      console.warn('Gemini API: Response candidate blocked due to safety settings.');
+      throw new SafetyBlockError("The AI's response was blocked due to safety filters. Try rephrasing your request or adjusting the safety thresholds in Settings.", { provider: 'gemini' });
+    }
+    if (finishReason && finishReason !== 'STOP') {
+      console.warn(`Gemini API: Candidate finished with reason: ${finishReason}`);
+      throw new MalformedResponseError(`The AI couldn't generate a response (Reason: ${finishReason}). This might be due to safety filters or other limitations. Please try modifying your request.`, { provider: 'gemini' });
+    }
+  };
+
+  const generateText = async (prompt: string, options: AIGenerateOptions = {}): Promise<string> => {
+    if (options.onPartialText) return streamText(prompt, options);
+
+    const response = await post('generateContent', prompt, options);
+    const data: GeminiResponse = await response.json();
+
+    checkPromptFeedback(data);
+    if (!data.candidates || data.candidates.length === 0) {
+      console.error('Gemini API Unexpected Response Format: No candidates.', data);
+      throw new MalformedResponseError('The AI service returned an empty or unexpected response. Please try again.', { provider: 'gemini' });
+    }
+    if (!data.candidates[0].content?.parts?.[0]?.text) {
+      // Check if the content is missing because of a finish reason like SAFETY
+      checkFinishReason(data.candidates[0].finishReason);
+      console.error('Gemini API Unexpected Response Format: Missing text in content part.', data);
+      throw new MalformedResponseError('The AI service returned an improperly formatted response. Please try again.', { provider: 'gemini' });
+    }
+
+    return data.candidates[0].content.parts[0].text;
+  };
+
+  // Each streamed event is a partial GenerateContentResponse carrying the next piece of text
+  const streamText = async (prompt: string, options: AIGenerateOptions): Promise<string> => {
+    const response = await post('streamGenerateContent', prompt, options);
+    let text = '';
+    let finishReason: string | undefined;
+
+    await readServerSentEvents(response, 'gemini', (eventData) => {
+      const data = parseStreamEvent<GeminiResponse>(eventData, 'gemini');
+      checkPromptFeedback(data);
+      const candidate = data.candidates?.[0];
+      const delta = candidate?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+      finishReason = candidate?.finishReason ?? finishReason;
+      if (finishReason === 'SAFETY') checkFinishReason(finishReason);
+      if (delta) {
+        text += delta;
+        options.onPartialText?.(text);
+      }
+    });
+
+    if (!text) {
+      checkFinishReason(finishReason);
+      throw new MalformedResponseError('The AI service returned an empty or unexpected response. Please try again.', { provider: 'gemini' });
+    }
+    return text;
+  };
+
+  const embedTexts = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    const response = await fetchOrNetworkError('gemini', () => fetch(`${baseUrl}/models/${GEMINI_EMBEDDING_MODEL}:batchEmbedContents?key=${settings.apiKey}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        requests: texts.map(text => ({ model: `models/${GEMINI_EMBEDDING_MODEL}`, content: { parts: [{ text }] } })),
+      }),
+    }));
+    if (!response.ok) {
+      const errorData = await readErrorBody(response);
+      throw toGeminiError(response.status, errorData, parseRetryAfterMs(response.headers.get('Retry-After'), errorData));
+    }
+    const data: { embeddings?: { values?: number[] }[] } = await response.json();
+    if (data.embeddings?.length !== texts.length || data.embeddings.some(embedding => !Array.isArray(embedding.values))) {
+      throw new MalformedResponseError('The embedding service returned an unexpected response. Please try again.', { provider: 'gemini' });
+    }
+    return data.embeddings.map(embedding => embedding.values);
+  };
+
+  const listModels = async (signal?: AbortSignal): Promise<string[]> => {
+    const response = await fetchOrNetworkError('gemini', () => fetch(`${baseUrl}/models?key=${settings.apiKey}`, { signal }));
+    if (!response.ok) {
+      const errorData = await readErrorBody(response);
+      throw toGeminiError(response.status, errorData, null);
+    }
+    const data = await response.json();
+    return (data.models ?? [])
+      .filter((m: { supportedGenerationMethods?: string[] }) => m.supportedGenerationMethods?.includes('generateContent'))
+      .map((m: { name: string }) => m.name.replace(/^models\//, ''));
+  };
+
+  return { id: 'gemini', model, generateText, embedTexts, listModels };
+};
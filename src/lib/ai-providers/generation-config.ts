@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { GenerationConfig, SafetyCategory, SafetyThreshold } from '../../types';
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: null,
+  topP: null,
+  maxOutputTokens: null,
+  safety: {
+    harassment: 'default',
+    hate_speech: 'default',
+    sexually_explicit: 'default',
+    dangerous_content: 'default',
+  },
+};
+
+export const SAFETY_CATEGORIES: { value: SafetyCategory; label: string; gemini: string }[] = [
+  { value: 'harassment', label: 'Harassment', gemini: 'HARM_CATEGORY_HARASSMENT' },
+  { value: 'hate_speech', label: 'Hate speech', gemini: 'HARM_CATEGORY_HATE_SPEECH' },
+  { value: 'sexually_explicit', label: 'Sexually explicit', gemini: 'HARM_CATEGORY_SEXUALLY_EXPLICIT' },
+  { value: 'dangerous_content', label: 'Dangerous content', gemini: 'HARM_CATEGORY_DANGEROUS_CONTENT' },
+];
+
+export const SAFETY_THRESHOLDS: { value: SafetyThreshold; label: string; gemini?: string }[] = [
+  { value: 'default', label: 'Provider default' },
+  { value: 'block_none', label: 'Block none', gemini: 'BLOCK_NONE' },
+  { value: 'block_only_high', label: 'Block only high', gemini: 'BLOCK_ONLY_HIGH' },
+  { value: 'block_medium_and_above', label: 'Block medium and above', gemini: 'BLOCK_MEDIUM_AND_ABOVE' },
+  { value: 'block_low_and_above', label: 'Block low and above', gemini: 'BLOCK_LOW_AND_ABOVE' },
+];
+
+const safetyThresholdSchema = z.enum(['default', 'block_none', 'block_only_high', 'block_medium_and_above', 'block_low_and_above']);
+
+export const generationConfigSchema = z.object({
+  temperature: z.number({ invalid_type_error: 'Temperature must be a number.' })
+    .min(0, 'Temperature must be between 0 and 2.').max(2, 'Temperature must be between 0 and 2.').nullable(),
+  topP: z.number({ invalid_type_error: 'Top P must be a number.' })
+    .min(0, 'Top P must be between 0 and 1.').max(1, 'Top P must be between 0 and 1.').nullable(),
+  maxOutputTokens: z.number({ invalid_type_error: 'Max output tokens must be a number.' })
+    .int('Max output tokens must be a whole number.')
+    .min(256, 'Max output tokens must be at least 256, or questions get cut off.')
+    .max(65536, 'Max output tokens can be at most 65536.')
+    .nullable(),
+  safety: z.object({
+    harassment: safetyThresholdSchema,
+    hate_speech: safetyThresholdSchema,
+    sexually_explicit: safetyThresholdSchema,
+    dangerous_content: safetyThresholdSchema,
+  }),
+});
+
+/**
+ * Validates a generation config
+ * @param config The config to check
+ * @returns Human-readable problems; empty when the config is valid
+ */
+export const getGenerationConfigErrors = (config: GenerationConfig): string[] => {
+  const result = generationConfigSchema.safeParse(config);
+  return result.success ? [] : result.error.issues.map(issue => issue.message);
+};
+
+/**
+ * Builds Gemini `safetySettings` from the configured thresholds
+ * @param config The generation config
+ * @returns Safety settings for the categories that override the default
+ */
+export const toGeminiSafetySettings = (config: GenerationConfig): { category: string; threshold: string }[] => {
+  return SAFETY_CATEGORIES.flatMap(category => {
+    const threshold = SAFETY_THRESHOLDS.find(t => t.value === config.safety[category.value])?.gemini;
+    return threshold ? [{ category: category.gemini, threshold }] : [];
+  });
+};
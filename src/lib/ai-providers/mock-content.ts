@@ -0,0 +1,300 @@
+import { ChatTurn, GeminiQuestion, QuestionType } from '../../types';
+
+/**
+ * Deterministic text analysis used by the offline mock provider to build
+ * questions and chat answers from the supplied content, without any model.
+ */
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'these', 'those', 'then', 'than',
+  'are', 'was', 'were', 'been', 'being', 'have', 'has', 'had', 'does', 'did', 'will', 'would', 'could',
+  'should', 'may', 'might', 'must', 'can', 'shall', 'its', 'our', 'your', 'their', 'his', 'her', 'they',
+  'them', 'there', 'here', 'where', 'when', 'which', 'while', 'what', 'who', 'whom', 'whose', 'why', 'how',
+  'about', 'between', 'over', 'under', 'after', 'before', 'also', 'only', 'such', 'each', 'other', 'some',
+  'more', 'most', 'many', 'much', 'very', 'often', 'usually', 'used', 'using', 'uses', 'use', 'like',
+  'because', 'however', 'therefore', 'thus', 'through', 'during', 'within', 'without', 'upon', 'both',
+  'either', 'neither', 'same', 'any', 'all', 'not', 'but', 'nor', 'one', 'two', 'first', 'second',
+  'example', 'examples', 'called', 'known', 'following', 'shown', 'figure', 'table', 'chapter', 'section',
+]);
+
+const MIN_SENTENCE_WORDS = 6;
+const MAX_SENTENCE_CHARS = 300;
+const BLANK = '_______';
+
+export interface MockSentence {
+  text: string;
+  keyword: string; // The most significant term in the sentence, used as the answer
+}
+
+/**
+ * Stable 32-bit FNV-1a hash, used to make "random" choices repeatable
+ * @param text The text to hash
+ * @returns Unsigned hash value
+ */
+export const hashText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[a-z][a-z0-9-]*/g) ?? [];
+
+const isSignificant = (word: string): boolean => word.length >= 4 && !STOP_WORDS.has(word);
+
+/**
+ * Splits content into complete, reasonably sized sentences
+ * @param content The source text
+ * @returns Sentences in document order
+ */
+export const extractSentences = (content: string): string[] => {
+  const sentences = content
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"'(])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /[.!?]$/.test(sentence)
+      && sentence.length <= MAX_SENTENCE_CHARS
+      && sentence.split(' ').length >= MIN_SENTENCE_WORDS);
+  return [...new Set(sentences)];
+};
+
+/**
+ * Ranks the significant words of the content by frequency
+ * @param content The source text
+ * @returns Keywords, most frequent first (ties broken by length, then alphabetically)
+ */
+export const extractKeywords = (content: string): string[] => {
+  const counts = new Map<string, number>();
+  for (const word of tokenize(content)) {
+    if (isSignificant(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length || a[0].localeCompare(b[0]))
+    .map(([word]) => word);
+};
+
+/**
+ * Pairs each sentence with its highest-ranked keyword, skipping sentences without one
+ * @param content The source text
+ * @returns Sentences that can be turned into questions
+ */
+export const analyseContent = (content: string): { sentences: MockSentence[]; keywords: string[] } => {
+  const keywords = extractKeywords(content);
+  const rank = new Map(keywords.map((word, index) => [word, index]));
+  const sentences: MockSentence[] = [];
+  for (const text of extractSentences(content)) {
+    const candidates = tokenize(text).filter(word => rank.has(word));
+    if (candidates.length === 0) continue;
+    const keyword = candidates.reduce((best, word) => (rank.get(word)! < rank.get(best)! ? word : best));
+    sentences.push({ text, keyword });
+  }
+  return { sentences, keywords };
+};
+
+const keywordPattern = (keyword: string): RegExp => new RegExp(`\\b${keyword.replace(/[-]/g, '\\-')}\\b`, 'i');
+
+const pickDistractors = (keyword: string, keywords: string[], count: number, seed: number): string[] => {
+  const pool = keywords.filter(word => word !== keyword);
+  const picked: string[] = [];
+  for (let i = 0; picked.length < count && i < pool.length; i++) {
+    const word = pool[(seed + i * 7) % pool.length];
+    if (!picked.includes(word)) picked.push(word);
+  }
+  const fillers = ['none of the above', 'not covered', 'undefined', 'unrelated'];
+  while (picked.length < count) picked.push(fillers[picked.length]);
+  return picked;
+};
+
+const quote = (sentence: string): string => `According to the material: "${sentence}"`;
+
+const buildQuestionItem = (type: QuestionType, sentence: MockSentence, keywords: string[], index: number): Record<string, unknown> => {
+  const seed = hashText(`${sentence.text}|${index}`);
+  const pattern = keywordPattern(sentence.keyword);
+  const blanked = sentence.text.replace(pattern, BLANK);
+
+  if (type === 'mcq') {
+    const options = pickDistractors(sentence.keyword, keywords, 3, seed);
+    const correctIndex = seed % 4;
+    options.splice(correctIndex, 0, sentence.keyword);
+    return {
+      question: `Which term correctly completes the statement: "${blanked}"`,
+      options,
+      correctOption: 'ABCD'[correctIndex],
+      explanation: quote(sentence.text),
+    };
+  }
+
+  if (type === 'fillblank') {
+    return { question: blanked, answer: sentence.keyword, explanation: quote(sentence.text) };
+  }
+
+  // Alternate true statements with false ones made by swapping in another keyword
+  const makeFalse = index % 2 === 1;
+  const [replacement] = pickDistractors(sentence.keyword, keywords, 1, seed);
+  return {
+    statement: makeFalse
+      ? sentence.text.replace(pattern, match => (/^[A-Z]/.test(match) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement))
+      : sentence.text,
+    answer: !makeFalse,
+    explanation: makeFalse
+      ? `The statement uses "${replacement}" where the material says "${sentence.keyword}". ${quote(sentence.text)}`
+      : quote(sentence.text),
+  };
+};
+
+/**
+ * Builds well-formed question items of one type from the content
+ * @param type The question type
+ * @param count How many items to build
+ * @param content The source text
+ * @param avoid Question stems or statements that must not be repeated
+ * @returns Items in the shape of the structured question response schema
+ */
+export const buildMockQuestions = (
+  type: QuestionType,
+  count: number,
+  content: string,
+  avoid: string[] = []
+): Record<string, unknown>[] => {
+  const { sentences, keywords } = analyseContent(content);
+  if (sentences.length === 0) return [];
+
+  const avoided = new Set(avoid.map(text => text.trim()));
+  const items: Record<string, unknown>[] = [];
+  // Start at a type-dependent offset so each question type draws on different sentences first
+  const offset = hashText(type) % sentences.length;
+  for (let i = 0; items.length < count && i < sentences.length * 2; i++) {
+    const sentence = sentences[(offset + i) % sentences.length];
+    const item: Record<string, unknown> = { ...buildQuestionItem(type, sentence, keywords, i), sourceQuote: sentence.text };
+    const stem = String(item.question ?? item.statement);
+    if (avoided.has(stem)) continue;
+    avoided.add(stem);
+    items.push(item);
+  }
+  return items;
+};
+
+// Retrieved chat context labels each chunk with its pages on a line of its own, e.g. "[pp. 12–13 – Heading]"
+const PAGE_LABEL_LINE = /^\[(pp?\. [\d–, ]+?)(?: – [^\]]*)?\]$/gm;
+
+// The sentences of the content with the pages they come from, when the content is labelled
+const extractCitedSentences = (content: string): { text: string; pages: string | null }[] => {
+  const labels = [...content.matchAll(PAGE_LABEL_LINE)];
+  if (labels.length === 0) return extractSentences(content).map(text => ({ text, pages: null }));
+  return labels.flatMap((label, i) => {
+    const section = content.slice((label.index ?? 0) + label[0].length, labels[i + 1]?.index ?? content.length);
+    return extractSentences(section).map(text => ({ text, pages: label[1] }));
+  });
+};
+
+/**
+ * Answers a question with the sentences of the content that share the most keywords with it,
+ * citing their pages when the content is labelled with them.
+ * Follow-ups that match nothing on their own ("explain that more simply") are answered from the previous question.
+ * @param question The student's question
+ * @param content The study material
+ * @param history Earlier conversation turns, oldest first
+ * @returns A short answer quoting the material, or a note that it is not covered
+ */
+export const buildMockChatAnswer = (question: string, content: string, history: ChatTurn[] = []): string => {
+  const sentences = extractCitedSentences(content);
+  const findRelevant = (text: string) => {
+    const questionWords = new Set(tokenize(text).filter(isSignificant));
+    return sentences
+      .map((sentence, index) => ({ ...sentence, index, score: tokenize(sentence.text).filter(word => questionWords.has(word)).length }))
+      .filter(sentence => sentence.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, 3)
+      .sort((a, b) => a.index - b.index);
+  };
+
+  const previousQuestion = [...history].reverse().find(turn => turn.role === 'user')?.content;
+  let scored = findRelevant(question);
+  if (scored.length === 0 && previousQuestion) scored = findRelevant(previousQuestion);
+
+  if (scored.length === 0) {
+    return "I couldn't find anything about that in the study material. (Offline mock response)";
+  }
+  const lines = scored.map(sentence => `- ${sentence.text}${sentence.pages ? ` [${sentence.pages}]` : ''}`);
+  return `Based on the study material:\n\n${lines.join('\n')}\n\n(Offline mock response)`;
+};
+
+// How much of the best-matching sentence a text reproduces: the share of its significant words found in the text
+const bestSentenceCoverage = (text: string, sentences: string[]): number => {
+  const textWords = new Set(tokenize(text));
+  return Math.max(0, ...sentences.map(sentence => {
+    const words = [...new Set(tokenize(sentence).filter(isSignificant))];
+    return words.length === 0 ? 0 : words.filter(word => textWords.has(word)).length / words.length;
+  }));
+};
+
+const fillBlank = (stem: string, answer: string): string => (/_{3,}/.test(stem) ? stem.replace(/_{3,}/, answer) : `${stem} ${answer}`);
+
+/**
+ * Answers a question from the content without its answer key, for the verification pass.
+ * MCQs and blanks are answered by the completion that best matches a sentence of the content;
+ * statements are true only when the content contains them.
+ * @param question The question to answer
+ * @param content The source the question was drawn from
+ * @returns A verification result in the shape of the structured verification response schema
+ */
+export const buildMockVerification = (question: GeminiQuestion, content: string): Record<string, unknown> => {
+  const sentences = extractSentences(content);
+  const reason = (text: string) => `${text} (Offline mock response)`;
+
+  if (question.type === 'mcq') {
+    const coverages = (question.options ?? []).map(option => bestSentenceCoverage(fillBlank(question.question, option), sentences));
+    const best = Math.max(0, ...coverages);
+    const bestIndex = coverages.indexOf(best);
+    const ambiguous = coverages.filter(coverage => coverage === best).length > 1;
+    return {
+      answer: String.fromCharCode(65 + Math.max(0, bestIndex)),
+      supported: best >= 0.8,
+      ambiguous,
+      confidence: ambiguous ? 0.5 : 0.9,
+      reason: reason(ambiguous ? 'Several options complete the statement equally well.' : 'One option completes a statement in the material.'),
+    };
+  }
+
+  if (question.type === 'truefalse') {
+    const normalize = (text: string) => tokenize(text).join(' ');
+    const stated = normalize(content).includes(normalize(question.question));
+    const coverage = bestSentenceCoverage(question.question, sentences);
+    return {
+      answer: String(stated),
+      supported: stated || coverage >= 0.6,
+      ambiguous: false,
+      confidence: stated ? 0.9 : 0.8,
+      reason: reason(stated ? 'The material contains this statement.' : 'The material says something different.'),
+    };
+  }
+
+  const answer = String(question.answer);
+  const coverage = bestSentenceCoverage(fillBlank(question.question, answer), sentences);
+  const supported = coverage >= 0.9;
+  return {
+    answer: supported ? answer : '',
+    supported,
+    ambiguous: false,
+    confidence: supported ? 0.9 : 0.3,
+    reason: reason(supported ? 'The completed sentence appears in the material.' : 'No sentence in the material matches the completed blank.'),
+  };
+};
+
+const MOCK_EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Builds a hashed bag-of-words vector, so texts sharing significant words are similar
+ * @param text The text to embed
+ * @returns A unit-length vector (all zeros for a text without significant words)
+ */
+export const buildMockEmbedding = (text: string): number[] => {
+  const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+  tokenize(text).filter(isSignificant).forEach(word => {
+    vector[hashText(word) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+  });
+  const length = Math.hypot(...vector);
+  return length > 0 ? vector.map(value => value / length) : vector;
+};
@@ -0,0 +1,101 @@
+import { AIGenerateOptions, AIProvider, AIProviderSettings, MockProviderOptions } from '../../types';
+import { abortableDelay } from '../utils/abort-utils';
+import { RateLimitError, SafetyBlockError, ServerError } from './ai-error';
+import { buildMockChatAnswer, buildMockEmbedding, buildMockQuestions, buildMockVerification } from './mock-content';
+
+export const MOCK_MODEL = 'mock-v1';
+const MOCK_STREAM_PIECES = 12;
+
+export const DEFAULT_MOCK_OPTIONS: MockProviderOptions = {
+  fault: 'none',
+  faultRate: 0.5,
+  latencyMs: 400,
+};
+
+// Counts requests across provider instances so injected faults follow the call sequence
+let mockCallCount = 0;
+
+/**
+ * Decides whether the nth request fails. Spreading faults evenly (rate 0.5 fails every
+ * second call) keeps runs repeatable and lets retries and repair loops eventually succeed.
+ */
+const shouldInjectFault = (callNumber: number, rate: number): boolean => {
+  const clamped = Math.max(0, Math.min(1, rate));
+  return Math.floor(callNumber * clamped) > Math.floor((callNumber - 1) * clamped);
+};
+
+const injectFault = (options: MockProviderOptions): string | null => {
+  switch (options.fault) {
+    case 'rate_limited':
+      throw new RateLimitError('The AI service is currently busy or rate limits have been exceeded (Error 429). Please try again in a few moments.', { provider: 'mock', status: 429, retryAfterMs: 1000 });
+    case 'server_error':
+      throw new ServerError('The AI service encountered a temporary issue (Error 500). Please try again shortly.', { provider: 'mock', status: 500 });
+    case 'safety_block':
+      throw new SafetyBlockError("Your request was blocked by the AI's safety filters (Reason: SAFETY). Please revise your input.", { provider: 'mock' });
+    case 'malformed':
+      // Truncated output, as from a model that stopped mid-answer
+      return 'Sure! Here are your questions:\n{"questions": [{"question": "Which of the following';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Offline provider for development and demos. It builds deterministic questions, answer
+ * checks and grounded chat answers from the request context instead of calling a model.
+ * @param settings Provider settings; `settings.mock` configures latency and fault injection
+ * @returns The mock provider
+ */
+export const createMockProvider = (settings: AIProviderSettings): AIProvider => {
+  const mockOptions = { ...DEFAULT_MOCK_OPTIONS, ...settings.mock };
+
+  const buildResponse = (prompt: string, options: AIGenerateOptions): string => {
+    const context = options.context;
+    if (context?.task === 'questions') {
+      const questions = buildMockQuestions(context.type, context.count, context.content, context.avoid);
+      return JSON.stringify({ questions });
+    }
+    if (context?.task === 'chat') {
+      return buildMockChatAnswer(context.question, context.content, options.history);
+    }
+    if (context?.task === 'verification') {
+      return JSON.stringify(buildMockVerification(context.question, context.content));
+    }
+    // Requests without context only get a fixed acknowledgement
+    return `Mock response to a ${prompt.length}-character prompt. (Offline mock response)`;
+  };
+
+  // Simulates a streamed response by revealing the text in pieces over another latency period
+  const streamInPieces = async (text: string, options: AIGenerateOptions) => {
+    const pieceLength = Math.max(1, Math.ceil(text.length / MOCK_STREAM_PIECES));
+    for (let end = pieceLength; end < text.length + pieceLength; end += pieceLength) {
+      await abortableDelay(mockOptions.latencyMs / MOCK_STREAM_PIECES, options.signal);
+      options.onPartialText?.(text.slice(0, end));
+    }
+  };
+
+  const generateText = async (prompt: string, options: AIGenerateOptions = {}): Promise<string> => {
+    const callNumber = ++mockCallCount;
+    await abortableDelay(mockOptions.latencyMs, options.signal);
+
+    if (mockOptions.fault !== 'none' && shouldInjectFault(callNumber, mockOptions.faultRate)) {
+      console.warn(`Mock AI provider: injecting "${mockOptions.fault}" into request ${callNumber}.`);
+      const malformed = injectFault(mockOptions);
+      if (malformed !== null) return malformed;
+    }
+
+    const text = buildResponse(prompt, options);
+    if (options.onPartialText) await streamInPieces(text, options);
+    return text;
+  };
+
+  // Faults are not injected here; they exercise the generation pipeline, which embeddings are not part of
+  const embedTexts = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    await abortableDelay(mockOptions.latencyMs, signal);
+    return texts.map(buildMockEmbedding);
+  };
+
+  const listModels = async (): Promise<string[]> => [MOCK_MODEL];
+
+  return { id: 'mock', model: MOCK_MODEL, generateText, embedTexts, listModels };
+};
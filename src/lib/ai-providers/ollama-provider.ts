@@ -0,0 +1,117 @@
+import { AIGenerateOptions, AIProvider, AIProviderSettings } from '../../types';
+import { DEFAULT_GENERATION_CONFIG } from './generation-config';
+import { readJsonLines } from './stream-utils';
+import { AIProviderError, createAIError, errorCodeForStatus, fetchOrNetworkError, MalformedResponseError, ModelNotFoundError, readErrorBody, readErrorMessage, ServerError } from './ai-error';
+
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+export const OLLAMA_DEFAULT_MODEL = 'llama3.1';
+export const OLLAMA_EMBEDDING_MODEL = 'nomic-embed-text';
+
+const toOllamaError = (status: number, errorBody: unknown, model: string): AIProviderError => {
+  const detail = readErrorMessage(errorBody);
+  const details = { provider: 'ollama' as const, status };
+
+  if (status === 404) {
+    return new ModelNotFoundError(`The model "${model}" is not installed on the Ollama server. Run "ollama pull ${model}" or choose another model in Settings.`, details);
+  }
+  if (status >= 500) {
+    return new ServerError(`The Ollama server encountered an error (Error ${status}). ${detail}`.trim(), details);
+  }
+  return createAIError(errorCodeForStatus(status), `Ollama Error (${status}): ${detail || 'An unknown error occurred.'}`, details);
+};
+
+/**
+ * Client for a local or self-hosted Ollama server using the `/api/chat` endpoint
+ * @param settings Provider settings; Ollama needs no API key
+ * @returns The Ollama provider
+ */
+export const createOllamaProvider = (settings: AIProviderSettings): AIProvider => {
+  const baseUrl = (settings.baseUrl || OLLAMA_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = settings.model || OLLAMA_DEFAULT_MODEL;
+  const generation = settings.generation ?? DEFAULT_GENERATION_CONFIG;
+  const connectionHint = `Make sure Ollama is running at ${baseUrl} and allows requests from this site (OLLAMA_ORIGINS).`;
+
+  const generateText = async (prompt: string, options: AIGenerateOptions = {}): Promise<string> => {
+    const response = await fetchOrNetworkError('ollama', () => fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: [...(options.history ?? []).map(({ role, content }) => ({ role, content })), { role: 'user', content: prompt }],
+        stream: Boolean(options.onPartialText),
+        ...(options.responseSchema && { format: 'json' }),
+        options: {
+          ...(generation.temperature !== null && { temperature: generation.temperature }),
+          ...(generation.topP !== null && { top_p: generation.topP }),
+          ...(generation.maxOutputTokens !== null && { num_predict: generation.maxOutputTokens }),
+        },
+      }),
+    }), connectionHint);
+
+    if (!response.ok) {
+      const errorData = await readErrorBody(response);
+      console.error('Ollama API Error Response:', { status: response.status, data: errorData });
+      throw toOllamaError(response.status, errorData, model);
+    }
+
+    if (options.onPartialText) return readStream(response, options.onPartialText);
+
+    const data = await response.json();
+    if (typeof data.message?.content !== 'string' || !data.message.content) {
+      console.error('Ollama API Unexpected Response Format:', data);
+      throw new MalformedResponseError('The Ollama server returned an empty or unexpected response. Please try again.', { provider: 'ollama' });
+    }
+    return data.message.content;
+  };
+
+  // Each streamed line is a chat response holding the next piece of text; the last one has `done: true`
+  const readStream = async (response: Response, onPartialText: (text: string) => void): Promise<string> => {
+    let text = '';
+    await readJsonLines(response, 'ollama', (value) => {
+      const line = value as { message?: { content?: string }; error?: string };
+      if (line.error) throw new ServerError(`The Ollama server reported an error: ${line.error}`, { provider: 'ollama' });
+      if (line.message?.content) {
+        text += line.message.content;
+        onPartialText(text);
+      }
+    });
+    if (!text) {
+      throw new MalformedResponseError('The Ollama server returned an empty or unexpected response. Please try again.', { provider: 'ollama' });
+    }
+    return text;
+  };
+
+  const embedTexts = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    const response = await fetchOrNetworkError('ollama', () => fetch(`${baseUrl}/api/embed`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: OLLAMA_EMBEDDING_MODEL, input: texts }),
+    }), connectionHint);
+    if (!response.ok) {
+      const errorData = await readErrorBody(response);
+      throw toOllamaError(response.status, errorData, OLLAMA_EMBEDDING_MODEL);
+    }
+    const data: { embeddings?: number[][] } = await response.json();
+    if (data.embeddings?.length !== texts.length) {
+      throw new MalformedResponseError('The Ollama server returned unexpected embeddings. Please try again.', { provider: 'ollama' });
+    }
+    return data.embeddings;
+  };
+
+  const listModels = async (signal?: AbortSignal): Promise<string[]> => {
+    const response = await fetchOrNetworkError('ollama', () => fetch(`${baseUrl}/api/tags`, { signal }), connectionHint);
+    if (!response.ok) {
+      throw toOllamaError(response.status, await readErrorBody(response), model);
+    }
+    const data = await response.json();
+    return (data.models ?? []).map((m: { name: string }) => m.name);
+  };
+
+  return { id: 'ollama', model, generateText, embedTexts, listModels };
+};
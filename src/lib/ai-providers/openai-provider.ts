@@ -0,0 +1,138 @@
+import { AIGenerateOptions, AIProvider, AIProviderSettings } from '../../types';
+import { parseRetryAfterMs } from '../request-scheduler';
+import { DEFAULT_GENERATION_CONFIG } from './generation-config';
+import { parseStreamEvent, readServerSentEvents } from './stream-utils';
+import { AIProviderError, createAIError, errorCodeForStatus, fetchOrNetworkError, InvalidApiKeyError, MalformedResponseError, ModelNotFoundError, QuotaExceededError, RateLimitError, readErrorBody, readErrorMessage, SafetyBlockError, ServerError } from './ai-error';
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+const toOpenAIError = (status: number, errorBody: unknown, retryAfterMs: number | null): AIProviderError => {
+  const detail = readErrorMessage(errorBody);
+  const errorCode = (errorBody as { error?: { code?: unknown } })?.error?.code;
+  const details = { provider: 'openai' as const, status, retryAfterMs };
+
+  if (status === 401 || status === 403) {
+    return new InvalidApiKeyError(`The endpoint rejected the API key (Error ${status}). Please check your API key. ${detail}`.trim(), details);
+  }
+  if (status === 404) {
+    return new ModelNotFoundError(`The model was not found on this endpoint (Error 404). Please check the model name and base URL in Settings. ${detail}`.trim(), details);
+  }
+  if (status === 429) {
+    if (errorCode === 'insufficient_quota') {
+      return new QuotaExceededError('The quota for this API key has been used up. Please check the billing settings of your account.', details);
+    }
+    return new RateLimitError('The AI service is currently busy or rate limits have been exceeded (Error 429). Please try again in a few moments.', details);
+  }
+  if (status === 400 && errorCode === 'content_filter') {
+    return new SafetyBlockError("Your request was blocked by the AI's content filter. Please revise your input.", details);
+  }
+  if (status >= 500) {
+    return new ServerError(`The AI service encountered a temporary issue (Error ${status}). Please try again shortly.`, details);
+  }
+  return createAIError(errorCodeForStatus(status), `API Error (${status}): ${detail || 'An unknown error occurred with the AI service.'}`, details);
+};
+
+/**
+ * Client for OpenAI and any self-hosted server exposing the OpenAI `chat/completions` API
+ * (vLLM, LM Studio, LiteLLM, ...)
+ * @param settings Provider settings; the API key is optional for servers without auth
+ * @returns The OpenAI-compatible provider
+ */
+export const createOpenAIProvider = (settings: AIProviderSettings): AIProvider => {
+  const baseUrl = (settings.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = settings.model || OPENAI_DEFAULT_MODEL;
+  const generation = settings.generation ?? DEFAULT_GENERATION_CONFIG; // Safety thresholds have no equivalent here
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` }),
+  };
+
+  const generateText = async (prompt: string, options: AIGenerateOptions = {}): Promise<string> => {
+    const response = await fetchOrNetworkError('openai', () => fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [...(options.history ?? []).map(({ role, content }) => ({ role, content })), { role: 'user', content: prompt }],
+        ...(generation.temperature !== null && { temperature: generation.temperature }),
+        ...(generation.topP !== null && { top_p: generation.topP }),
+        ...(generation.maxOutputTokens !== null && { max_tokens: generation.maxOutputTokens }),
+        // The Gemini-style response schema is not portable; JSON mode plus the prompt's format contract is
+        ...(options.responseSchema && { response_format: { type: 'json_object' } }),
+        ...(options.onPartialText && { stream: true }),
+      }),
+    }), `Please check the base URL (${baseUrl}) and that the server allows requests from this site.`);
+
+    if (!response.ok) {
+      const errorData = await readErrorBody(response);
+      console.error('OpenAI-compatible API Error Response:', { status: response.status, data: errorData });
+      throw toOpenAIError(response.status, errorData, parseRetryAfterMs(response.headers.get('Retry-After'), errorData));
+    }
+
+    if (options.onPartialText) return readStream(response, options.onPartialText);
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new SafetyBlockError("The AI's response was blocked by the content filter. Try rephrasing your request.", { provider: 'openai' });
+    }
+    if (typeof choice?.message?.content !== 'string' || !choice.message.content) {
+      console.error('OpenAI-compatible API Unexpected Response Format:', data);
+      throw new MalformedResponseError('The AI service returned an empty or unexpected response. Please try again.', { provider: 'openai' });
+    }
+    return choice.message.content;
+  };
+
+  // Streamed chunks carry the next piece of text in `choices[0].delta.content`; "[DONE]" ends the stream
+  const readStream = async (response: Response, onPartialText: (text: string) => void): Promise<string> => {
+    let text = '';
+    await readServerSentEvents(response, 'openai', (eventData) => {
+      if (eventData === '[DONE]') return;
+      const choice = parseStreamEvent<{ choices?: { delta?: { content?: string }; finish_reason?: string }[] }>(eventData, 'openai').choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new SafetyBlockError("The AI's response was blocked by the content filter. Try rephrasing your request.", { provider: 'openai' });
+      }
+      if (choice?.delta?.content) {
+        text += choice.delta.content;
+        onPartialText(text);
+      }
+    });
+    if (!text) {
+      throw new MalformedResponseError('The AI service returned an empty or unexpected response. Please try again.', { provider: 'openai' });
+    }
+    return text;
+  };
+
+  const embedTexts = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    const response = await fetchOrNetworkError('openai', () => fetch(`${baseUrl}/embeddings`, {
+      method: 'POST',
+      signal,
+      headers,
+      body: JSON.stringify({ model: OPENAI_EMBEDDING_MODEL, input: texts }),
+    }), `Please check the base URL (${baseUrl}) and that the server allows requests from this site.`);
+    if (!response.ok) {
+      const errorData = await readErrorBody(response);
+      throw toOpenAIError(response.status, errorData, parseRetryAfterMs(response.headers.get('Retry-After'), errorData));
+    }
+    const data: { data?: { embedding?: number[]; index?: number }[] } = await response.json();
+    if (data.data?.length !== texts.length || data.data.some(item => !Array.isArray(item.embedding))) {
+      throw new MalformedResponseError('The embedding service returned an unexpected response. Please try again.', { provider: 'openai' });
+    }
+    // Items carry their input index; servers are not required to keep the order
+    return [...data.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map(item => item.embedding);
+  };
+
+  const listModels = async (signal?: AbortSignal): Promise<string[]> => {
+    const response = await fetchOrNetworkError('openai', () => fetch(`${baseUrl}/models`, { headers, signal }));
+    if (!response.ok) {
+      throw toOpenAIError(response.status, await readErrorBody(response), null);
+    }
+    const data = await response.json();
+    return (data.data ?? []).map((m: { id: string }) => m.id);
+  };
+
+  return { id: 'openai', model, generateText, embedTexts, listModels };
+};
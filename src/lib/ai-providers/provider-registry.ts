@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { AIProvider, AIProviderId, AIProviderSettings, RequestLimits } from '../../types';
+import { RequestSchedulerOptions } from '../request-scheduler';
+import { BadRequestError, MissingApiKeyError } from './ai-error';
+import { createMockProvider, DEFAULT_MOCK_OPTIONS, MOCK_MODEL } from './mock-provider';
+import { DEFAULT_GENERATION_CONFIG, generationConfigSchema, getGenerationConfigErrors } from './generation-config';
+import { createGeminiProvider, GEMINI_DEFAULT_BASE_URL, GEMINI_DEFAULT_MODEL } from './gemini-provider';
+import { createOllamaProvider, OLLAMA_DEFAULT_BASE_URL, OLLAMA_DEFAULT_MODEL } from './ollama-provider';
+import { createOpenAIProvider, OPENAI_DEFAULT_BASE_URL, OPENAI_DEFAULT_MODEL } from './openai-provider';
+
+const PROVIDER_SETTINGS_STORAGE_KEY = 'mocksmart-ai-provider';
+export const MAX_CONCURRENCY = 10;
+export const MAX_REQUESTS_PER_MINUTE = 10000;
+
+export interface AIProviderDefinition {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  hasEndpoint: boolean; // False for the offline mock, which needs no base URL or key
+  apiKeyStorageKey: string; // Session storage key; Gemini keeps its original key name
+  apiKeyHelpUrl?: string;
+  rateLimits: RequestSchedulerOptions; // Defaults for the shared request scheduler
+  create: (settings: AIProviderSettings) => AIProvider;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProviderDefinition> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: GEMINI_DEFAULT_MODEL,
+    defaultBaseUrl: GEMINI_DEFAULT_BASE_URL,
+    suggestedModels: ['gemini-1.5-flash-latest', 'gemini-1.5-pro-latest', 'gemini-2.0-flash'],
+    requiresApiKey: true,
+    hasEndpoint: true,
+    apiKeyStorageKey: 'geminiApiKey',
+    apiKeyHelpUrl: 'https://aistudio.google.com/getting-started',
+    rateLimits: { concurrency: 3, requestsPerMinute: 15 }, // Free tier for flash models
+    create: createGeminiProvider,
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    defaultModel: OPENAI_DEFAULT_MODEL,
+    defaultBaseUrl: OPENAI_DEFAULT_BASE_URL,
+    suggestedModels: ['gpt-4o-mini', 'gpt-4o'],
+    requiresApiKey: false, // Self-hosted endpoints often run without auth
+    hasEndpoint: true,
+    apiKeyStorageKey: 'openaiApiKey',
+    rateLimits: { concurrency: 3, requestsPerMinute: 60 },
+    create: createOpenAIProvider,
+  },
+  ollama: {
+    id: 'ollama',
+    label: 'Ollama (local)',
+    defaultModel: OLLAMA_DEFAULT_MODEL,
+    defaultBaseUrl: OLLAMA_DEFAULT_BASE_URL,
+    suggestedModels: ['llama3.1', 'mistral', 'qwen2.5'],
+    requiresApiKey: false,
+    hasEndpoint: true,
+    apiKeyStorageKey: 'ollamaApiKey',
+    rateLimits: { concurrency: 1, requestsPerMinute: 600 }, // A local model handles one request at a time
+    create: createOllamaProvider,
+  },
+  mock: {
+    id: 'mock',
+    label: 'Offline mock (no AI)',
+    defaultModel: MOCK_MODEL,
+    defaultBaseUrl: '',
+    suggestedModels: [MOCK_MODEL],
+    requiresApiKey: false,
+    hasEndpoint: false,
+    apiKeyStorageKey: 'mockApiKey',
+    rateLimits: { concurrency: 4, requestsPerMinute: 6000 },
+    create: createMockProvider,
+  },
+};
+
+// Set VITE_MOCK_AI=true to start every session on the offline mock provider
+const MOCK_AI_ENV_FLAG = import.meta.env.VITE_MOCK_AI === 'true';
+
+const storedSettingsSchema = z.object({
+  provider: z.enum(['gemini', 'openai', 'ollama', 'mock']),
+  model: z.string(),
+  baseUrl: z.string(),
+  generation: generationConfigSchema.optional().catch(undefined), // An invalid config falls back to the defaults instead of discarding the provider
+  rateLimits: z.object({
+    concurrency: z.number().int().min(1).max(MAX_CONCURRENCY),
+    requestsPerMinute: z.number().int().min(1).max(MAX_REQUESTS_PER_MINUTE),
+  }).optional().catch(undefined),
+  mock: z.object({
+    fault: z.enum(['none', 'rate_limited', 'server_error', 'safety_block', 'malformed']),
+    faultRate: z.number().min(0).max(1),
+    latencyMs: z.number().int().min(0).max(10000),
+  }).optional(),
+});
+
+/**
+ * Creates the default settings for a provider
+ * @param provider The provider to configure
+ * @param apiKey The API key to keep
+ * @returns Settings using the provider's default model and base URL
+ */
+export const getDefaultProviderSettings = (provider: AIProviderId = 'gemini', apiKey = ''): AIProviderSettings => ({
+  provider,
+  model: AI_PROVIDERS[provider].defaultModel,
+  baseUrl: AI_PROVIDERS[provider].defaultBaseUrl,
+  apiKey,
+  generation: { ...DEFAULT_GENERATION_CONFIG, safety: { ...DEFAULT_GENERATION_CONFIG.safety } },
+  ...(provider === 'mock' && { mock: { ...DEFAULT_MOCK_OPTIONS } }),
+});
+
+/**
+ * Instantiates the client for the configured provider
+ * @param settings The provider settings
+ * @returns The provider client
+ */
+export const createAIProvider = (settings: AIProviderSettings): AIProvider => {
+  return AI_PROVIDERS[settings.provider].create(settings);
+};
+
+/**
+ * Checks whether the settings are complete enough to make requests
+ * @param settings The provider settings
+ * @returns A message describing what is missing, or null when ready
+ */
+export const getProviderSetupError = (settings: AIProviderSettings): string | null => {
+  const definition = AI_PROVIDERS[settings.provider];
+  if (definition.requiresApiKey && !settings.apiKey.trim()) {
+    return `Please provide a ${definition.label} API key in Settings.`;
+  }
+  if (!settings.model.trim()) return `Please choose a ${definition.label} model in Settings.`;
+  if (definition.hasEndpoint && !settings.baseUrl.trim()) return `Please enter the ${definition.label} base URL in Settings.`;
+  const [generationError] = settings.generation ? getGenerationConfigErrors(settings.generation) : [];
+  if (generationError) return generationError;
+  return null;
+};
+
+/**
+ * Resolves the request limits that apply to the settings
+ * @param settings The provider settings
+ * @returns The user's limits, or the provider's defaults
+ */
+export const getRequestLimits = (settings: AIProviderSettings): RequestLimits => {
+  const { concurrency, requestsPerMinute } = AI_PROVIDERS[settings.provider].rateLimits;
+  return settings.rateLimits ?? { concurrency, requestsPerMinute };
+};
+
+/**
+ * Loads the provider selection from local storage and the API key from session storage
+ * @returns The saved settings, or the Gemini defaults (the mock provider when VITE_MOCK_AI is set)
+ */
+export const loadProviderSettings = (): AIProviderSettings => {
+  let settings = getDefaultProviderSettings();
+  try {
+    const raw = localStorage.getItem(PROVIDER_SETTINGS_STORAGE_KEY);
+    const parsed = raw ? storedSettingsSchema.safeParse(JSON.parse(raw)) : null;
+    if (parsed?.success) settings = { ...(parsed.data as Omit<AIProviderSettings, 'apiKey'>), apiKey: '' };
+  } catch (error) {
+    console.warn('Failed to load AI provider settings:', error);
+  }
+  if (MOCK_AI_ENV_FLAG && settings.provider !== 'mock') settings = getDefaultProviderSettings('mock');
+  return { ...settings, apiKey: sessionStorage.getItem(AI_PROVIDERS[settings.provider].apiKeyStorageKey) ?? '' };
+};
+
+/**
+ * Persists the provider settings. The API key stays in session storage so it is not kept across browser sessions.
+ * @param settings The settings to save
+ */
+export const saveProviderSettings = (settings: AIProviderSettings): void => {
+  const { apiKey, ...selection } = settings;
+  localStorage.setItem(PROVIDER_SETTINGS_STORAGE_KEY, JSON.stringify(selection));
+  const keyStorageKey = AI_PROVIDERS[settings.provider].apiKeyStorageKey;
+  if (apiKey) {
+    sessionStorage.setItem(keyStorageKey, apiKey);
+  } else {
+    sessionStorage.removeItem(keyStorageKey);
+  }
+};
+
+/**
+ * Reads the API key previously entered for a provider in this session
+ * @param provider The provider
+ * @returns The stored key, or an empty string
+ */
+export const loadProviderApiKey = (provider: AIProviderId): string => {
+  return sessionStorage.getItem(AI_PROVIDERS[provider].apiKeyStorageKey) ?? '';
+};
+
+/**
+ * Throws when the settings are not complete enough to make requests
+ * @param settings The provider settings
+ */
+export const assertProviderReady = (settings: AIProviderSettings): void => {
+  const setupError = getProviderSetupError(settings);
+  if (!setupError) return;
+  if (AI_PROVIDERS[settings.provider].requiresApiKey && !settings.apiKey.trim()) {
+    throw new MissingApiKeyError(setupError, { provider: settings.provider });
+  }
+  throw new BadRequestError(setupError, { provider: settings.provider });
+};
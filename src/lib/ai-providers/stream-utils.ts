@@ -0,0 +1,71 @@
+import { AIProviderId } from '../../types';
+import { MalformedResponseError } from './ai-error';
+
+const readLines = async (response: Response, provider: AIProviderId, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) {
+    throw new MalformedResponseError('The AI service did not return a readable stream. Please try again.', { provider });
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop() ?? '';
+    lines.forEach(onLine);
+    if (done) return;
+  }
+};
+
+/**
+ * Reads a `text/event-stream` response and passes the data of each event to a callback
+ * @param response The streaming fetch response
+ * @param provider The provider, for error reporting
+ * @param onData Called with the data of each event, in order
+ */
+export const readServerSentEvents = async (response: Response, provider: AIProviderId, onData: (data: string) => void): Promise<void> => {
+  let data: string[] = [];
+  const dispatch = () => {
+    if (data.length > 0) onData(data.join('\n'));
+    data = [];
+  };
+  await readLines(response, provider, (line) => {
+    if (line === '') dispatch();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    // Comments, ids and event names are not used by any provider
+  });
+  dispatch();
+};
+
+/**
+ * Reads a newline-delimited JSON response (as streamed by Ollama)
+ * @param response The streaming fetch response
+ * @param provider The provider, for error reporting
+ * @param onObject Called with each parsed line, in order
+ */
+export const readJsonLines = async (response: Response, provider: AIProviderId, onObject: (value: unknown) => void): Promise<void> => {
+  await readLines(response, provider, (line) => {
+    if (!line.trim()) return;
+    try {
+      onObject(JSON.parse(line));
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      throw new MalformedResponseError('The AI service sent an unreadable stream. Please try again.', { provider, cause: error });
+    }
+  });
+};
+
+/**
+ * Parses the JSON payload of a streamed event
+ * @param data The event data
+ * @param provider The provider, for error reporting
+ * @returns The parsed payload
+ */
+export const parseStreamEvent = <T>(data: string, provider: AIProviderId): T => {
+  try {
+    return JSON.parse(data) as T;
+  } catch (error) {
+    throw new MalformedResponseError('The AI service sent an unreadable stream. Please try again.', { provider, cause: error });
+  }
+};
@@ -1,5 +1,6 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import { OcrService } from './ocr-service';
+import { PDFProcessingError } from './pdf-error';
 
 // Configure worker to use local version
 pdfjsLib.GlobalWorkerOptions.workerSrc = '/js/pdf.worker.min.js';
@@ -33,31 +34,13 @@ export interface EnhancedPDFResult {
     ocrConfidence: number;
     processingTime: number;
     warnings?: string[];        // For non-critical issues, like OCR failing to initialize
+    fileName?: string;          // Name of the uploaded file
   };
 }
 
-export class PDFProcessingError extends Error {
-  constructor(
-    message: string,
-    public code: string,
-    public recoverable: boolean = true
-  ) {
-    super(message);
-    this.name = 'PDFProcessingError';
-  }
-}
-
 
-/**
- * Estimate the number of tokens in a string (approximate, for chunking).
- * @param text The text to estimate tokens for.
- * @returns Estimated token count.
- */
-const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
-};
 
-import { extractHeadings } from './utils/heading-utils';
+import { assignChunkHeadings, extractHeadings } from './utils/heading-utils';
 
 /**
  * Chunk text into segments, mapping each chunk to real PDF page numbers.
@@ -69,6 +52,7 @@ import { extractHeadings } from './utils/heading-utils';
  * @throws Error if input validation fails.
  */
 import { chunkText } from './utils/chunk-utils';
+import { loadTokenizer } from './tokenizer';
 
 
 
@@ -245,7 +229,8 @@ export const processEnhancedPDF = async (
     }
     // Extract topics and create chunks
     const topics = extractHeadings(fullText);
-    const chunks = chunkText(fullText, paragraphPageMap);
+    await loadTokenizer(); // Chunk sizes should use real token counts
+    const chunks = assignChunkHeadings(chunkText(fullText, paragraphPageMap), topics);
     const avgConfidence = ocrPageCount > 0 ? totalConfidence / ocrPageCount : 0;
     onProgress?.({
       stage: 'complete',
@@ -264,7 +249,8 @@ export const processEnhancedPDF = async (
         ocrSucceeded: ocrSucceededOnAnyPage,
         ocrConfidence: avgConfidence,
         processingTime: Date.now() - startTime,
-        warnings: warnings.length > 0 ? warnings : undefined
+        warnings: warnings.length > 0 ? warnings : undefined,
+        fileName: file.name
       }
     };
   } catch (error) {
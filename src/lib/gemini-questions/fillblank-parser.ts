@@ -1,11 +1,12 @@
 import { GeminiQuestion } from '../../types';
+import { normalizeQuestion } from '../utils/grading-utils';
 
 /**
  * Parses Fill-in-the-blank questions from text response
  * @param textBlock The text containing Fill-in-the-blank questions
  * @param count Expected number of questions
  * @param overallQuestionId Current ID counter
- * @returns Parsed questions and updated ID
+ * @returns Successfully parsed questions (at most `count`) and updated ID
  */
 export const parseFillBlankText = (
   textBlock: string,
@@ -26,17 +27,8 @@ export const parseFillBlankText = (
     parsedCount++;
   }
 
-  // Add placeholders for failed parses
-  while(questions.length < count) {
-    questions.push({
-      question: "Failed to parse Fill-Blank",
-      answer: "",
-      explanation: "Parsing error or insufficient model output."
-    });
-  }
-
   return {
-    questions: questions.slice(0, count).map(q => ({
+    questions: questions.slice(0, count).map(q => normalizeQuestion({
       ...q,
       id: `fill_${overallQuestionId++}`,
       type: 'fillblank'
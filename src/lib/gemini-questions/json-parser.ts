@@ -0,0 +1,106 @@
+import { GeminiQuestion, QuestionType } from '../../types';
+import { normalizeQuestion, optionLetterToIndex } from '../utils/grading-utils';
+import { FillBlankItem, McqItem, QUESTION_ITEM_SCHEMAS, TrueFalseItem } from './question-schemas';
+
+const ID_PREFIXES: Record<QuestionType, string> = {
+  mcq: 'mcq',
+  fillblank: 'fill',
+  truefalse: 'tf',
+};
+
+/**
+ * Extracts the JSON payload from a model response, tolerating markdown code fences and surrounding prose
+ * @param responseText The raw response text
+ * @returns The parsed JSON value, or undefined if no JSON could be parsed
+ */
+export const extractJson = (responseText: string): unknown => {
+  const fenced = responseText.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [responseText.trim(), fenced?.[1]?.trim()];
+
+  const firstBrace = responseText.search(/[[{]/);
+  const lastBrace = Math.max(responseText.lastIndexOf('}'), responseText.lastIndexOf(']'));
+  if (firstBrace >= 0 && lastBrace > firstBrace) {
+    candidates.push(responseText.slice(firstBrace, lastBrace + 1));
+  }
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch (_error) {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+};
+
+const toQuestion = (type: QuestionType, item: McqItem | FillBlankItem | TrueFalseItem): Omit<GeminiQuestion, 'id' | 'type'> => {
+  switch (type) {
+    case 'mcq': {
+      const mcq = item as McqItem;
+      const correctOptionIndex = optionLetterToIndex(mcq.correctOption);
+      return {
+        question: mcq.question,
+        options: mcq.options,
+        answer: `${mcq.correctOption}) ${mcq.options[correctOptionIndex]}`,
+        correctOptionIndex,
+        explanation: mcq.explanation,
+      };
+    }
+    case 'truefalse': {
+      const tf = item as TrueFalseItem;
+      return { question: tf.statement, answer: tf.answer, explanation: tf.explanation };
+    }
+    case 'fillblank':
+    default: {
+      const fill = item as FillBlankItem;
+      return { question: fill.question, answer: fill.answer, explanation: fill.explanation };
+    }
+  }
+};
+
+/**
+ * Parses a structured JSON question response and validates every item against its zod schema
+ * @param type The question type that was requested
+ * @param responseText The raw response text
+ * @param count Expected number of questions
+ * @param overallQuestionId Current ID counter
+ * @returns Valid questions (at most `count`) and updated ID, or null if the response contains no valid questions
+ */
+export const parseQuestionJson = (
+  type: QuestionType,
+  responseText: string,
+  count: number,
+  overallQuestionId: number
+): { questions: GeminiQuestion[], newId: number } | null => {
+  const payload = extractJson(responseText);
+  const items: unknown[] | undefined = Array.isArray(payload)
+    ? payload
+    : Array.isArray((payload as { questions?: unknown })?.questions)
+      ? (payload as { questions: unknown[] }).questions
+      : undefined;
+  if (!items) return null;
+
+  const schema = QUESTION_ITEM_SCHEMAS[type];
+  const questions: Omit<GeminiQuestion, 'id' | 'type'>[] = [];
+  for (const item of items) {
+    if (questions.length >= count) break;
+    const result = schema.safeParse(item);
+    if (result.success) {
+      const quote = result.data.sourceQuote;
+      questions.push({ ...toQuestion(type, result.data), ...(quote && { grounding: { quote } }) });
+    } else {
+      console.warn(`Discarding invalid ${type} item from structured response:`, result.error.issues);
+    }
+  }
+  if (questions.length === 0) return null;
+
+  return {
+    questions: questions.map(q => normalizeQuestion({
+      ...q,
+      id: `${ID_PREFIXES[type]}_${overallQuestionId++}`,
+      type
+    })),
+    newId: overallQuestionId
+  };
+};
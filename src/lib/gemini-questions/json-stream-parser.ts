@@ -0,0 +1,72 @@
+import { GeminiQuestion, QuestionType } from '../../types';
+import { parseQuestionJson } from './json-parser';
+
+/**
+ * Returns the source text of every complete object in the response's question array.
+ * The array may still be open, so the last, unfinished element is left out.
+ * @param text The response text received so far
+ * @returns JSON text of each complete array element
+ */
+export const extractCompleteArrayItems = (text: string): string[] => {
+  const questionsKey = text.indexOf('"questions"');
+  const arrayStart = text.indexOf('[', questionsKey >= 0 ? questionsKey : 0);
+  if (arrayStart < 0) return [];
+
+  const items: string[] = [];
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = arrayStart + 1; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0 && itemStart >= 0) {
+        items.push(text.slice(itemStart, i + 1));
+        itemStart = -1;
+      }
+    } else if (char === ']' && depth === 0) {
+      break; // End of the question array
+    }
+  }
+  return items;
+};
+
+/**
+ * Creates a parser that turns a growing response into questions as soon as each one is complete.
+ * Items are validated and numbered exactly like `parseQuestionJson`, so the ids match the final parse.
+ * @param type The question type that was requested
+ * @param count Expected number of questions
+ * @param overallQuestionId First id to assign
+ * @returns A function taking the full text received so far and returning the newly completed questions
+ */
+export const createQuestionStreamParser = (type: QuestionType, count: number, overallQuestionId: number) => {
+  let examinedItems = 0;
+  let emittedCount = 0;
+  let nextId = overallQuestionId;
+
+  return (text: string): GeminiQuestion[] => {
+    const items = extractCompleteArrayItems(text);
+    const completed: GeminiQuestion[] = [];
+    for (; examinedItems < items.length && emittedCount < count; examinedItems++) {
+      const parsed = parseQuestionJson(type, `[${items[examinedItems]}]`, 1, nextId);
+      if (!parsed) continue;
+      nextId = parsed.newId;
+      emittedCount += parsed.questions.length;
+      completed.push(...parsed.questions);
+    }
+    return completed;
+  };
+};
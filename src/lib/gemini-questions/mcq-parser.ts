@@ -1,11 +1,12 @@
 import { GeminiQuestion } from '../../types';
+import { normalizeQuestion, optionLetterToIndex } from '../utils/grading-utils';
 
 /**
  * Parses MCQ questions from text response
  * @param textBlock The text containing MCQs
  * @param count Expected number of questions
  * @param overallQuestionId Current ID counter
- * @returns Parsed questions and updated ID
+ * @returns Successfully parsed questions (at most `count`) and updated ID
  */
 export const parseMCQText = (
   textBlock: string,
@@ -22,23 +23,14 @@ export const parseMCQText = (
       question: match[2].trim(),
       options: [match[3].trim(), match[4].trim(), match[5].trim(), match[6].trim()],
       answer: `${match[7]}) ${match[8].trim()}`,
+      correctOptionIndex: optionLetterToIndex(match[7]),
       explanation: match[9].trim(),
     });
     parsedCount++;
   }
 
-  // Add placeholders for failed parses
-  while(questions.length < count) {
-    questions.push({
-      question: "Failed to parse MCQ",
-      options: ["","","",""],
-      answer: "",
-      explanation: "Parsing error or insufficient model output."
-    });
-  }
-
   return {
-    questions: questions.slice(0, count).map(q => ({
+    questions: questions.slice(0, count).map(q => normalizeQuestion({
       ...q,
       id: `mcq_${overallQuestionId++}`,
       type: 'mcq'
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { QuestionType } from '../../types';
+
+/**
+ * Zod schemas for structured (JSON) question generation responses.
+ * Items are validated one by one so a single malformed question does not discard the batch.
+ */
+const explanationSchema = z.string().trim().default('');
+// Optional so older cached responses and models that leave it out still validate
+const sourceQuoteSchema = z.string().trim().optional();
+
+export const mcqItemSchema = z.object({
+  question: z.string().trim().min(1),
+  options: z.array(z.string().trim().min(1)).length(4),
+  correctOption: z.string().trim().toUpperCase().pipe(z.enum(['A', 'B', 'C', 'D'])),
+  explanation: explanationSchema,
+  sourceQuote: sourceQuoteSchema,
+});
+
+export const fillBlankItemSchema = z.object({
+  question: z.string().trim().min(1),
+  answer: z.string().trim().min(1),
+  explanation: explanationSchema,
+  sourceQuote: sourceQuoteSchema,
+});
+
+export const trueFalseItemSchema = z.object({
+  statement: z.string().trim().min(1),
+  answer: z.union([
+    z.boolean(),
+    z.string().trim().toLowerCase().pipe(z.enum(['true', 'false'])).transform(value => value === 'true'),
+  ]),
+  explanation: explanationSchema,
+  sourceQuote: sourceQuoteSchema,
+});
+
+export type McqItem = z.infer<typeof mcqItemSchema>;
+export type FillBlankItem = z.infer<typeof fillBlankItemSchema>;
+export type TrueFalseItem = z.infer<typeof trueFalseItemSchema>;
+
+export const QUESTION_ITEM_SCHEMAS = {
+  mcq: mcqItemSchema,
+  fillblank: fillBlankItemSchema,
+  truefalse: trueFalseItemSchema,
+} as const;
+
+/**
+ * Gemini `responseSchema` definitions (OpenAPI subset) matching the zod schemas above.
+ */
+const wrapInQuestionsArray = (itemProperties: Record<string, unknown>, required: string[]) => ({
+  type: 'OBJECT',
+  properties: {
+    questions: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: itemProperties,
+        required,
+        propertyOrdering: required,
+      },
+    },
+  },
+  required: ['questions'],
+});
+
+export const QUESTION_RESPONSE_SCHEMAS: Record<QuestionType, Record<string, unknown>> = {
+  mcq: wrapInQuestionsArray(
+    {
+      question: { type: 'STRING' },
+      options: { type: 'ARRAY', items: { type: 'STRING' }, minItems: 4, maxItems: 4 },
+      correctOption: { type: 'STRING', enum: ['A', 'B', 'C', 'D'] },
+      explanation: { type: 'STRING' },
+      sourceQuote: { type: 'STRING' },
+    },
+    ['question', 'options', 'correctOption', 'explanation', 'sourceQuote']
+  ),
+  fillblank: wrapInQuestionsArray(
+    {
+      question: { type: 'STRING' },
+      answer: { type: 'STRING' },
+      explanation: { type: 'STRING' },
+      sourceQuote: { type: 'STRING' },
+    },
+    ['question', 'answer', 'explanation', 'sourceQuote']
+  ),
+  truefalse: wrapInQuestionsArray(
+    {
+      statement: { type: 'STRING' },
+      answer: { type: 'BOOLEAN' },
+      explanation: { type: 'STRING' },
+      sourceQuote: { type: 'STRING' },
+    },
+    ['statement', 'answer', 'explanation', 'sourceQuote']
+  ),
+};
@@ -1,11 +1,12 @@
 import { GeminiQuestion } from '../../types';
+import { normalizeQuestion } from '../utils/grading-utils';
 
 /**
  * Parses True/False questions from text response
  * @param textBlock The text containing True/False questions
  * @param count Expected number of questions
  * @param overallQuestionId Current ID counter
- * @returns Parsed questions and updated ID
+ * @returns Successfully parsed questions (at most `count`) and updated ID
  */
 export const parseTrueFalseText = (
   textBlock: string,
@@ -26,17 +27,8 @@ export const parseTrueFalseText = (
     parsedCount++;
   }
 
-  // Add placeholders for failed parses
-  while(questions.length < count) {
-    questions.push({
-      question: "Failed to parse T/F",
-      answer: false,
-      explanation: "Parsing error or insufficient model output."
-    });
-  }
-
   return {
-    questions: questions.slice(0, count).map(q => ({
+    questions: questions.slice(0, count).map(q => normalizeQuestion({
       ...q,
       id: `tf_${overallQuestionId++}`,
       type: 'truefalse'
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { GeminiQuestion, QuestionVerification, VerificationIssue } from '../../types';
+import { isAnswerCorrect, normalizeQuestion } from '../utils/grading-utils';
+import { extractJson } from './json-parser';
+
+/**
+ * Independent answer check: the model answers each question from its source chunk without
+ * seeing the answer key, and the result is compared with the key.
+ */
+
+const MIN_VERIFIED_CONFIDENCE = 0.6; // Below this the answer key is too doubtful to trust without review
+
+export const verificationResultSchema = z.object({
+  answer: z.union([z.string().trim(), z.boolean().transform(String)]),
+  supported: z.boolean(),
+  ambiguous: z.boolean(),
+  // Some models answer in percent
+  confidence: z.number().transform(value => (value > 1 ? value / 100 : value)).pipe(z.number().min(0).max(1)),
+  reason: z.string().trim().default(''),
+});
+
+export type VerificationResult = z.infer<typeof verificationResultSchema>;
+
+/**
+ * Gemini `responseSchema` definition (OpenAPI subset) matching the zod schema above.
+ */
+export const VERIFICATION_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    answer: { type: 'STRING' },
+    supported: { type: 'BOOLEAN' },
+    ambiguous: { type: 'BOOLEAN' },
+    confidence: { type: 'NUMBER' },
+    reason: { type: 'STRING' },
+  },
+  required: ['answer', 'supported', 'ambiguous', 'confidence', 'reason'],
+  propertyOrdering: ['answer', 'supported', 'ambiguous', 'confidence', 'reason'],
+};
+
+const ANSWER_INSTRUCTIONS = {
+  mcq: 'the letter of the option you believe is correct ("A", "B", ...)',
+  truefalse: '"true" or "false"',
+  fillblank: 'the word or short phrase that fills the blank',
+} as const;
+
+/**
+ * Creates the prompt asking the model to answer a question from its source, without the answer key
+ * @param question The question to verify
+ * @param sourceContent The content the question was drawn from
+ * @returns The prompt
+ */
+export const createVerificationPrompt = (question: GeminiQuestion, sourceContent: string): string => {
+  const normalized = normalizeQuestion(question);
+  const body = normalized.type === 'mcq'
+    ? `${normalized.question}\n${(normalized.options ?? []).map((option, index) => `${String.fromCharCode(65 + index)}) ${option}`).join('\n')}`
+    : normalized.type === 'truefalse'
+      ? `True or false: ${normalized.question}`
+      : normalized.question;
+
+  return `You are checking an exam question against the study material it was written from.
+Answer the question yourself using ONLY the material below. Do not assume the question is well written.
+
+Material:
+"""
+${sourceContent}
+"""
+
+Question:
+${body}
+
+Respond with a JSON object with:
+- "answer": ${ANSWER_INSTRUCTIONS[normalized.type]}
+- "supported": true if the material clearly states or implies that answer
+- "ambiguous": true if more than one answer could be defended or the question can be read in more than one way
+- "confidence": a number from 0 to 1 for how sure you are of your answer
+- "reason": one sentence explaining your judgement`;
+};
+
+/**
+ * Parses a verification response
+ * @param responseText The raw response text
+ * @returns The validated result, or null if the response is not a valid verification
+ */
+export const parseVerificationResponse = (responseText: string): VerificationResult | null => {
+  const parsed = verificationResultSchema.safeParse(extractJson(responseText));
+  return parsed.success ? parsed.data : null;
+};
+
+/**
+ * Compares the verifier's answer with the answer key and scores how trustworthy the key is.
+ * Confidence is the verifier's own when it agrees with the key and its complement when it does not;
+ * unsupported or ambiguous questions have it halved.
+ * @param question The verified question
+ * @param result The verifier's result
+ * @returns The verification to attach to the question
+ */
+export const evaluateVerification = (question: GeminiQuestion, result: VerificationResult): QuestionVerification => {
+  const agrees = isAnswerCorrect(question, result.answer);
+  const issues: VerificationIssue[] = [];
+  if (!agrees) issues.push('answer_mismatch');
+  if (result.ambiguous) issues.push('ambiguous');
+  if (!result.supported) issues.push('unsupported');
+
+  let confidence = agrees ? result.confidence : 1 - result.confidence;
+  if (result.ambiguous || !result.supported) confidence /= 2;
+  confidence = Math.round(confidence * 100) / 100;
+  if (issues.length === 0 && confidence < MIN_VERIFIED_CONFIDENCE) issues.push('low_confidence');
+
+  return {
+    status: issues.length > 0 ? 'flagged' : 'verified',
+    confidence,
+    issues,
+    verifierAnswer: result.answer,
+    reason: result.reason,
+  };
+};
+
+/**
+ * Builds the verification of a question whose check could not run. It does not flag the question.
+ * @param reason Why the check failed
+ * @returns The failed verification
+ */
+export const createFailedVerification = (reason: string): QuestionVerification => ({
+  status: 'failed',
+  confidence: null,
+  issues: [],
+  reason,
+});
@@ -1,137 +1,156 @@
-// API Key Management:
-// This module now expects the API key to be passed into its functions.
-// The responsibility of obtaining and storing the API key lies with the calling code (e.g., UI components or a central state management).
+// Provider Management:
+// This module talks to whichever AI provider the user selected in Settings (Gemini, an OpenAI-compatible
+// endpoint or a local Ollama server). Callers pass the provider settings, including any API key, into its functions.
 // For development, a user might input it. For production, a backend proxy is the most secure.
 
-// const GEMINI_API_BASE_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent";
-// Using gemini-1.5-flash for potentially faster and cheaper responses, though quality might vary. Adjust as needed.
-const GEMINI_API_MODEL = "gemini-1.5-flash-latest"; // or "gemini-pro" or other compatible models
-const CHAR_PER_TOKEN_ESTIMATE = 4; // General heuristic for English text
 const MAX_TOKENS_PER_CHUNK_QUESTION_GEN = 7000; // Max tokens to aim for per chunk for question generation (gemini-1.5-flash has large context, but smaller is better for focused Qs)
                                            // Gemini 1.0 Pro was ~8k input tokens. Flash 1.5 is 1M. Let's be conservative.
                                            // The prompt itself also consumes tokens.
 
-export interface GeminiQuestion {
-  id: string;
-  type: 'mcq' | 'fillblank' | 'truefalse';
-  question: string;
-  options?: string[];
-  answer: string | boolean;
-  explanation: string;
-}
-
-export interface QuestionGenerationRequest {
-  content: string;
-  mcqCount: number;
-  fillBlankCount: number;
-  trueFalseCount: number;
-  difficulty: 'basic' | 'intermediate' | 'advanced';
-}
+import { AIGenerateOptions, AIProvider, AIProviderId, AIProviderSettings, CachedResponseKind, ChatTurn, Difficulty, GeminiQuestion, GenerationFailure, GenerationSummary, QuestionGenerationRequest, QuestionGenerationResult, QuestionType, QuestionVerification, TokenEstimate } from '../types';
+import { groupBlueprintCells } from './utils/blueprint-utils';
+import { extractTopicKeywords, selectContentForTopics } from './utils/topic-utils';
+import { groundQuestion } from './utils/grounding-utils';
+import { fitChatHistory, toChatExchanges } from './utils/chat-history-utils';
+import { RequestScheduler } from './request-scheduler';
+import { abortableDelay, isAbortError, throwIfAborted } from './utils/abort-utils';
+import { AIProviderError, BadRequestError, RateLimitError, ResponseParseError, UnknownAIError } from './ai-providers/ai-error';
+import { AI_PROVIDERS, assertProviderReady, createAIProvider, getRequestLimits } from './ai-providers/provider-registry';
+import { createCacheKey, getCachedResponse, loadCacheSettings, setCachedResponse } from './response-cache';
+import { countTokens, isTokenizerLoaded, loadTokenizer } from './tokenizer';
+import { calculateCost, getModelPricing, recordUsage } from './usage-budget';
+import { getPromptTemplate, renderPromptTemplate } from './prompt-templates';
+
+export type { GeminiQuestion, QuestionGenerationRequest, QuestionGenerationResult };
 
 const MAX_RETRIES = 2;
 const INITIAL_RETRY_DELAY_MS = 1000;
-
-const callGeminiApi = async (apiKey: string, prompt: string, attempt: number = 1): Promise<string> => {
-  if (!apiKey || apiKey === "YOUR_GEMINI_API_KEY_HERE" || apiKey.trim() === "") {
-    // This error should ideally be caught before calling if API key comes from user input
-    throw new Error("A valid Gemini API key is required. Please provide one.");
+const MAX_REPAIR_ATTEMPTS = 2; // Re-prompts per chunk and question type when parsing falls short
+const MAX_REPAIR_ECHO_CHARS = 4000; // How much of the malformed output is echoed back in a repair prompt
+const MAX_RETRY_AFTER_MS = 60000; // Cap on server-provided Retry-After hints
+// Typical response size per question, used for pre-flight output estimates
+const OUTPUT_TOKENS_PER_QUESTION: Record<'mcq' | 'fillblank' | 'truefalse', number> = { mcq: 150, fillblank: 80, truefalse: 70 };
+const OUTPUT_TOKENS_PER_RESPONSE = 10; // JSON wrapper around the questions
+const OUTPUT_TOKENS_PER_VERIFICATION = 60; // Verifier answer, flags and a one-sentence reason
+const MAX_CHAT_HISTORY_TOKENS = 4000; // Earlier chat turns sent with each message, on top of the document
+const EMBEDDING_BATCH_SIZE = 32; // Texts per embedding request; well under every provider's limit
+
+// One scheduler per provider, shared by parallel generation jobs and chat so they respect the same quota.
+// Its limits follow the request limits saved with the settings; `limits` records the ones last applied.
+const schedulers = new Map<AIProviderId, { scheduler: RequestScheduler; limits: string }>();
+
+const getScheduler = (settings: AIProviderSettings): RequestScheduler => {
+  const { concurrency, requestsPerMinute } = getRequestLimits(settings);
+  const limits = `${concurrency}/${requestsPerMinute}`;
+  const entry = schedulers.get(settings.provider);
+  if (!entry) {
+    const scheduler = new RequestScheduler({ concurrency, requestsPerMinute });
+    schedulers.set(settings.provider, { scheduler, limits });
+    return scheduler;
   }
-  const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_API_MODEL}:generateContent?key=${apiKey}`;
-
-  try {
-    const response = await fetch(GEMINI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        // Consider adding safetySettings if not globally configured for the API key
-        // safetySettings: [
-        //   { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-        //   { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-        //   { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-        //   { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-        // ],
-      }),
-    });
-
-    if (!response.ok) {
-      let errorData;
-      try {
-        errorData = await response.json();
-      } catch (e) {
-        // If parsing error response fails, use status text
-        errorData = { error: { message: response.statusText } };
-      }
+  if (entry.limits !== limits) {
+    entry.scheduler.configure({ concurrency, requestsPerMinute, burst: concurrency });
+    entry.limits = limits;
+  }
+  return entry.scheduler;
+};
 
-      console.error('Gemini API Error Response:', { status: response.status, data: errorData });
+interface ResponseCacheOptions {
+  kind: CachedResponseKind;
+  bypass?: boolean; // Skip the lookup (regenerate) but still store the fresh response
+  accept?: (response: string) => boolean; // Only responses passing this check are stored
+  onHit?: () => void;
+}
 
-      // Retry logic for specific server-side errors or rate limits
-      if ((response.status === 429 || response.status >= 500) && attempt <= MAX_RETRIES) {
-        const delay = INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
-        console.warn(`Gemini API Error (Status ${response.status}). Retrying attempt ${attempt + 1}/${MAX_RETRIES} in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return callGeminiApi(apiKey, prompt, attempt + 1);
-      }
+interface ProviderCallOptions extends AIGenerateOptions {
+  cache?: ResponseCacheOptions;
+}
 
-      // Map status codes to user-friendly messages
-      let userMessage = `API Error (${response.status}): ${errorData.error?.message || 'An unknown error occurred with the AI service.'}`;
-      if (response.status === 400) {
-        userMessage = `There was an issue with the request sent to the AI service (Error 400). Details: ${errorData.error?.message || 'Invalid request.'}`;
-        if (errorData.error?.message?.includes("API key not valid")) {
-            userMessage = "The provided API key is not valid. Please check your API key and try again.";
-        } else if (errorData.error?.message?.includes("billing")){
-            userMessage = "There might be an issue with billing for your API key or the free tier is not available in your region. Please check your Google AI Studio project settings.";
-        }
-      } else if (response.status === 403) {
-        userMessage = "The API key does not have the required permissions, or is incorrect (Error 403). Please check your API key.";
-      } else if (response.status === 429) {
-        userMessage = "The AI service is currently busy or rate limits have been exceeded (Error 429). Please try again in a few moments.";
-      } else if (response.status >= 500) {
-        userMessage = `The AI service encountered a temporary issue (Error ${response.status}). Please try again shortly.`;
-      }
-      throw new Error(userMessage);
-    }
+/**
+ * Resolves the response cache key for a request, or null when caching does not apply.
+ * The mock provider is never cached: it is free, and caching would hide injected faults.
+ */
+const resolveCacheKey = async (settings: AIProviderSettings, prompt: string, options: ProviderCallOptions): Promise<string | null> => {
+  if (!options.cache || settings.provider === 'mock' || !loadCacheSettings().enabled) return null;
+  return createCacheKey({
+    provider: settings.provider,
+    baseUrl: settings.baseUrl || AI_PROVIDERS[settings.provider].defaultBaseUrl,
+    model: settings.model || AI_PROVIDERS[settings.provider].defaultModel,
+    prompt, // The filled template, so it covers both the content chunk and the prompt wording
+    responseSchema: options.responseSchema,
+    history: options.history, // Earlier chat turns; undefined for single-turn requests, so their keys are unchanged
+    generation: settings.generation, // Sampling parameters change the response too
+  });
+};
 
-    const data = await response.json();
+// Sends a request through the provider's scheduler, retrying transient failures
+const requestWithRetries = async <T>(
+  settings: AIProviderSettings,
+  send: (provider: AIProvider) => Promise<T>,
+  signal?: AbortSignal,
+  attempt: number = 1
+): Promise<T> => {
+  const provider = createAIProvider(settings);
+  const scheduler = getScheduler(settings);
 
-    // Handle cases where the prompt or response was blocked due to safety settings
-    if (data.promptFeedback?.blockReason) {
-      console.warn('Gemini API: Prompt blocked due to safety settings:', data.promptFeedback.blockReason);
-      throw new Error(`Your request was blocked by the AI's safety filters (Reason: ${data.promptFeedback.blockReason}). Please revise your input.`);
+  try {
+    return await scheduler.schedule(() => send(provider), signal);
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error; // Cancellation is not a failure; let callers tell the two apart
     }
-    if (!data.candidates || data.candidates.length === 0) {
-        if(data.candidates && data.candidates[0]?.finishReason === "SAFETY") {
-             console.warn('Gemini API: Response candidate blocked due to safety settings.');
-             throw new Error("The AI's response was blocked due to safety filters. Try rephrasing your request or adjusting safety settings if possible.");
-        }
-      console.error('Gemini API Unexpected Response Format: No candidates.', data);
-      throw new Error('The AI service returned an empty or unexpected response. Please try again.');
+    if (!(error instanceof AIProviderError)) {
+      console.error(`Unexpected error calling ${settings.provider}:`, error);
+      throw new UnknownAIError(
+        `An unexpected error occurred with the AI service. Please try again. (${error instanceof Error ? error.message : String(error)})`,
+        { provider: settings.provider, cause: error }
+      );
     }
-    if (!data.candidates[0].content?.parts[0]?.text) {
-       // Check if the content is missing because of a finish reason like SAFETY
-      if (data.candidates[0].finishReason && data.candidates[0].finishReason !== "STOP") {
-        console.warn(`Gemini API: Candidate finished with reason: ${data.candidates[0].finishReason}`);
-        throw new Error(`The AI couldn't generate a response (Reason: ${data.candidates[0].finishReason}). This might be due to safety filters or other limitations. Please try modifying your request.`);
+
+    // Retry logic for transient errors: rate limits, server-side and network failures
+    if (error.retryable && attempt <= MAX_RETRIES) {
+      const delay = error.retryAfterMs !== null
+        ? Math.min(error.retryAfterMs, MAX_RETRY_AFTER_MS)
+        : INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+      console.warn(`${error.name}${error.status ? ` (Status ${error.status})` : ''} from ${error.provider}. Retrying attempt ${attempt + 1}/${MAX_RETRIES} in ${delay}ms...`);
+      if (error instanceof RateLimitError) {
+        // Rate limited: hold back every queued request, not just this one
+        scheduler.pauseFor(delay);
+      } else {
+        await abortableDelay(delay, signal);
       }
-      console.error('Gemini API Unexpected Response Format: Missing text in content part.', data);
-      throw new Error('The AI service returned an improperly formatted response. Please try again.');
+      return requestWithRetries(settings, send, signal, attempt + 1);
     }
+    throw error;
+  }
+};
 
-    return data.candidates[0].content.parts[0].text;
+const callProvider = async (settings: AIProviderSettings, prompt: string, options: ProviderCallOptions = {}): Promise<string> => {
+  assertProviderReady(settings);
+  const { cache, ...generateOptions } = options;
 
-  } catch (error) {
-    console.error('Error calling Gemini API (outer catch):', error);
-    if (error instanceof Error && (error.message.startsWith('API Error') || error.message.startsWith('The AI') || error.message.startsWith('Your request was blocked') || error.message.startsWith("A valid Gemini API key"))) {
-      throw error; // Re-throw known, user-friendly errors
+  const cacheKey = await resolveCacheKey(settings, prompt, options);
+  if (cacheKey && !cache.bypass) {
+    const cached = await getCachedResponse(cacheKey);
+    if (cached !== null) {
+      cache.onHit?.();
+      return cached;
     }
-    // For other errors (e.g., network issues), provide a generic message
-    throw new Error(`Failed to connect to the AI service. Please check your internet connection and try again. (${error instanceof Error ? error.message : String(error)})`);
   }
-};
 
-import { estimateTokens } from './utils/memoization-utils';
+  const responseText = await requestWithRetries(settings, provider => provider.generateText(prompt, generateOptions), generateOptions.signal);
+  const historyTokens = (generateOptions.history ?? []).reduce((sum, turn) => sum + countTokens(turn.content), 0);
+  recordUsage(settings, countTokens(prompt) + historyTokens, countTokens(responseText));
+  if (cacheKey && (cache.accept?.(responseText) ?? true)) {
+    await setCachedResponse(cacheKey, {
+      kind: cache.kind,
+      provider: settings.provider,
+      model: settings.model || AI_PROVIDERS[settings.provider].defaultModel,
+      response: responseText,
+    });
+  }
+  return responseText;
+};
 
 import { splitContentIntoChunks } from './utils/memoization-utils';
 
@@ -139,181 +158,668 @@ import { splitContentIntoChunks } from './utils/memoization-utils';
 import { parseMCQText } from './gemini-questions/mcq-parser';
 import { parseFillBlankText } from './gemini-questions/fillblank-parser';
 import { parseTrueFalseText } from './gemini-questions/tf-parser';
+import { parseQuestionJson } from './gemini-questions/json-parser';
+import { createQuestionStreamParser } from './gemini-questions/json-stream-parser';
+import { QUESTION_RESPONSE_SCHEMAS } from './gemini-questions/question-schemas';
+import { createFailedVerification, createVerificationPrompt, evaluateVerification, parseVerificationResponse, VERIFICATION_RESPONSE_SCHEMA } from './gemini-questions/verification';
+
+const QUESTION_FORMAT_INSTRUCTIONS: Record<QuestionType, { label: string; format: string }> = {
+  mcq: {
+    label: 'multiple choice questions',
+    format: `Each item must have:
+- "question": the question text
+- "options": exactly 4 answer options, without letter prefixes
+- "correctOption": the letter of the correct option ("A", "B", "C" or "D")
+- "explanation": a brief explanation of why the answer is correct
+- "sourceQuote": one or two sentences copied word for word from the content that support the answer`,
+  },
+  fillblank: {
+    label: 'fill-in-the-blank questions',
+    format: `Each item must have:
+- "question": the question text with "_______" marking the blank
+- "answer": the word or short phrase that fills the blank
+- "explanation": a brief explanation of why the answer is correct
+- "sourceQuote": one or two sentences copied word for word from the content that support the answer`,
+  },
+  truefalse: {
+    label: 'true/false questions',
+    format: `Each item must have:
+- "statement": the statement to judge
+- "answer": true or false
+- "explanation": a brief explanation of why the statement is true or false
+- "sourceQuote": one or two sentences copied word for word from the content that support the answer`,
+  },
+};
 
+/**
+ * Fills the user's question template; the JSON format contract is always appended so that
+ * edited templates cannot break response parsing.
+ */
+export const createQuestionGenerationPrompt = (contentChunk: string, type: QuestionType, count: number, difficulty: string, topic?: string, template: string = getPromptTemplate('questions')): string => {
+  const { label, format } = QUESTION_FORMAT_INSTRUCTIONS[type];
+  const instructions = renderPromptTemplate(template, {
+    content: contentChunk,
+    count,
+    questionType: label,
+    difficulty,
+    topic: topic || 'the topics in the content',
+  });
+  return `${instructions.trimEnd()}
+
+Respond with a JSON object of the form {"questions": [...]} containing exactly ${count} items.
+${format}
+`;
+};
 
-const createQuestionGenerationPrompt = (contentChunk: string, mcq: number, fill: number, tf: number, difficulty: string): string => {
-  return `Based on the following academic content, generate exactly:
-- ${mcq} multiple choice questions
-- ${fill} fill-in-the-blank questions
-- ${tf} true/false questions
-All questions should be at a ${difficulty} difficulty level.
+type QuestionTextParser = (textBlock: string, count: number, overallQuestionId: number) => { questions: GeminiQuestion[], newId: number };
 
+// Legacy plain-text parsers, used only when a response is not valid structured JSON
+const FALLBACK_PARSERS: Record<QuestionType, QuestionTextParser> = {
+  mcq: parseMCQText,
+  fillblank: parseFillBlankText,
+  truefalse: parseTrueFalseText,
+};
+
+const parseQuestionResponse = (type: QuestionType, responseText: string, count: number, overallQuestionId: number) => {
+  const structured = parseQuestionJson(type, responseText, count, overallQuestionId);
+  if (structured) return structured;
+  console.warn(`Structured ${type} response could not be validated; falling back to text parsing.`);
+  return FALLBACK_PARSERS[type](responseText, count, overallQuestionId);
+};
+
+const createRepairPrompt = (
+  contentChunk: string,
+  type: QuestionType,
+  missing: number,
+  difficulty: string,
+  malformedOutput: string,
+  acceptedQuestions: GeminiQuestion[]
+): string => {
+  const { label, format } = QUESTION_FORMAT_INSTRUCTIONS[type];
+  const echoedOutput = malformedOutput.length > MAX_REPAIR_ECHO_CHARS
+    ? `${malformedOutput.slice(0, MAX_REPAIR_ECHO_CHARS)}\n[...truncated]`
+    : malformedOutput;
+  const alreadyAccepted = acceptedQuestions.length > 0
+    ? `\nDo not repeat any of these questions, which were already accepted:\n${acceptedQuestions.map(q => `- ${q.question}`).join('\n')}\n`
+    : '';
+
+  return `Your previous response could not be used because it did not follow the required format.
+
+Previous response:
+"""
+${echoedOutput}
+"""
+
+Based on the following academic content, generate exactly ${missing} ${label}.
+All questions should be at a ${difficulty} difficulty level.
+${alreadyAccepted}
 Content:
 """
 ${contentChunk}
 """
 
-For each question, provide:
-- Multiple Choice: Question, 4 options (labeled A, B, C, D), the correct option letter followed by the answer text (e.g., "A) Correct Answer Text"), and a brief explanation. Format strictly as:
-  1. Question text?
-  A) Option 1
-  B) Option 2
-  C) Option 3
-  D) Option 4
-  Answer: A) Option 1 Text
-  Explanation: Why it's correct.
-
-- Fill-in-the-blank: Question with "_______" for the blank, the correct answer, and a brief explanation. Format strictly as:
-  1. Question with _______ blank.
-  Answer: The Answer
-  Explanation: Why it's correct.
-
-- True/False: Statement, the correct answer (True or False), and a brief explanation. Format strictly as:
-  1. Statement.
-  Answer: True
-  Explanation: Why it's true/false.
-
-Ensure distinct numbering for each question type if generated together, or assume separate calls for each type. Adhere strictly to the requested numbers of questions for each type.
+Format contract: respond ONLY with a JSON object of the form {"questions": [...]} containing exactly ${missing} items, with no other text.
+${format}
 `;
 };
 
+interface QuestionJobOutcome {
+  questions: GeminiQuestion[];
+  newId: number;
+  repairAttempts: number;
+  cachedResponses: number;
+  failure?: GenerationFailure;
+  cancelled?: boolean;
+}
 
-export const generateQuestions = async (
-  apiKey: string,
-  content: string,
-  request: QuestionGenerationRequest,
-  onProgress?: (progress: { value: number; message: string }) => void
-): Promise<GeminiQuestion[]> => {
-  if (!apiKey) throw new Error("API Key is required for generating questions.");
-
-  const allGeneratedQuestions: GeminiQuestion[] = [];
-  let overallQuestionId = 1;
-
-  const { difficulty } = request;
-  const totalQuestionsRequested = request.mcqCount + request.fillBlankCount + request.trueFalseCount;
+/**
+ * Generates questions of a single type for one chunk, re-prompting for the missing
+ * count when the response yields fewer valid questions than requested.
+ */
+const generateQuestionsOfType = async (
+  settings: AIProviderSettings,
+  contentChunk: string,
+  chunkIndex: number,
+  type: QuestionType,
+  count: number,
+  difficulty: string,
+  topic: string | undefined,
+  overallQuestionId: number,
+  signal?: AbortSignal,
+  bypassCache?: boolean,
+  onQuestions?: (questions: GeminiQuestion[]) => void
+): Promise<QuestionJobOutcome> => {
+  const questions: GeminiQuestion[] = [];
+  let repairAttempts = 0;
+  let cachedResponses = 0;
+  const reportedIds = new Set<string>();
+  const report = (completed: GeminiQuestion[]) => {
+    const unreported = completed.filter(q => !reportedIds.has(q.id));
+    unreported.forEach(q => reportedIds.add(q.id));
+    if (unreported.length > 0) onQuestions?.(unreported);
+  };
 
-  if (totalQuestionsRequested === 0) {
-    onProgress?.({ value: 100, message: "No questions requested."});
-    return [];
+  try {
+    let prompt = createQuestionGenerationPrompt(contentChunk, type, count, difficulty, topic);
+    for (;;) {
+      const missing = count - questions.length;
+      // When streaming, questions are reported as soon as their JSON object is complete
+      const streamParser = onQuestions ? createQuestionStreamParser(type, missing, overallQuestionId) : null;
+      const responseText = await callProvider(settings, prompt, {
+        responseSchema: QUESTION_RESPONSE_SCHEMAS[type],
+        signal,
+        onPartialText: streamParser ? text => report(streamParser(text)) : undefined,
+        context: { task: 'questions', type, count: missing, difficulty, content: contentChunk, avoid: questions.map(q => q.question) },
+        cache: {
+          kind: 'questions',
+          bypass: bypassCache,
+          // Cache only complete structured answers; a cached bad response would be replayed on every run
+          accept: text => parseQuestionJson(type, text, missing, 0)?.questions.length === missing,
+          onHit: () => { cachedResponses++; },
+        },
+      });
+      const parsed = parseQuestionResponse(type, responseText, missing, overallQuestionId);
+      report(parsed.questions); // Cached responses and the text fallback parser have not been reported yet
+      questions.push(...parsed.questions);
+      overallQuestionId = parsed.newId;
+
+      const stillMissing = count - questions.length;
+      if (stillMissing === 0 || repairAttempts >= MAX_REPAIR_ATTEMPTS) break;
+
+      repairAttempts++;
+      console.warn(`Chunk ${chunkIndex + 1}: parsed ${questions.length}/${count} ${type} questions. Repair attempt ${repairAttempts}/${MAX_REPAIR_ATTEMPTS}...`);
+      prompt = createRepairPrompt(contentChunk, type, stillMissing, difficulty, responseText, questions);
+    }
+    if (questions.length < count) {
+      throw new ResponseParseError(
+        `The AI response could not be parsed into valid questions after ${repairAttempts} repair attempt(s).`,
+        { provider: settings.provider }
+      );
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      // Keep whatever this job produced before the cancellation
+      return { questions, newId: overallQuestionId, repairAttempts, cachedResponses, cancelled: true };
+    }
+    console.error(`Failed to generate ${type} questions for chunk ${chunkIndex + 1}:`, error);
+    return {
+      questions,
+      newId: overallQuestionId,
+      repairAttempts,
+      cachedResponses,
+      failure: {
+        type,
+        chunkIndex,
+        missing: count - questions.length,
+        reason: error instanceof Error ? error.message : String(error),
+        errorCode: error instanceof AIProviderError ? error.code : 'unknown',
+      },
+    };
   }
 
-  onProgress?.({ value: 5, message: "Preparing content..." });
-  const contentChunks = splitContentIntoChunks(content, MAX_TOKENS_PER_CHUNK_QUESTION_GEN);
-  const numChunks = contentChunks.length;
+  return { questions, newId: overallQuestionId, repairAttempts, cachedResponses };
+};
 
-  console.log(`Content split into ${numChunks} chunks for question generation.`);
+interface GenerationTarget {
+  topic?: string;
+  content: string;
+  difficulty: Difficulty;
+  counts: Record<QuestionType, number>;
+}
 
-  let totalMcqsGenerated = 0;
-  let totalFillBlanksGenerated = 0;
-  let totalTrueFalseGenerated = 0;
+/**
+ * Turns a request into generation targets: a single target for the global counts,
+ * or one per blueprint topic/difficulty pair, scoped to the chunks matching that topic.
+ */
+const buildGenerationTargets = (content: string, request: QuestionGenerationRequest): GenerationTarget[] => {
+  if (!request.blueprint) {
+    return [{
+      content,
+      difficulty: request.difficulty,
+      counts: { mcq: request.mcqCount, fillblank: request.fillBlankCount, truefalse: request.trueFalseCount },
+    }];
+  }
 
-  for (let i = 0; i < numChunks; i++) {
-    const chunkContent = contentChunks[i];
-    const isLastChunk = i === numChunks - 1;
+  return groupBlueprintCells(request.blueprint).map(group => {
+    if (!group.topic) return { content, difficulty: group.difficulty, counts: group.counts };
+    const selection = selectContentForTopics([group.topic], request.chunks ?? [], content);
+    if (selection.usedFallback) {
+      console.warn(`Blueprint topic "${group.topic}" matched no chunks; using the full content instead.`);
+    }
+    return { topic: group.topic, content: selection.content, difficulty: group.difficulty, counts: group.counts };
+  });
+};
 
-    // Distribute remaining questions, ensuring the last chunk tries to fulfill the remainder
-    const remainingMcqs = request.mcqCount - totalMcqsGenerated;
-    const remainingFillBlanks = request.fillBlankCount - totalFillBlanksGenerated;
-    const remainingTrueFalse = request.trueFalseCount - totalTrueFalseGenerated;
+export interface QuestionGenerationOptions {
+  concurrency?: number; // Parallel requests; updates the provider's shared scheduler
+  requestsPerMinute?: number; // Rate limit; updates the provider's shared scheduler
+  signal?: AbortSignal; // Cancels outstanding requests; completed questions are still returned
+  bypassCache?: boolean; // Regenerate: ignore cached responses (fresh ones still replace them)
+  // Streams responses and reports each question as soon as it is complete. When a request finishes, its final
+  // (repaired and grounded) questions are reported again and replace the streamed versions with the same id.
+  onQuestions?: (questions: GeminiQuestion[]) => void;
+}
 
-    const mcqsForThisChunk = isLastChunk ? remainingMcqs : Math.ceil(remainingMcqs / (numChunks - i));
-    const fillBlanksForThisChunk = isLastChunk ? remainingFillBlanks : Math.ceil(remainingFillBlanks / (numChunks - i));
-    const trueFalseForThisChunk = isLastChunk ? remainingTrueFalse : Math.ceil(remainingTrueFalse / (numChunks - i));
+interface QuestionJob {
+  target: GenerationTarget;
+  chunkContent: string;
+  chunkIndex: number;
+  type: QuestionType;
+  count: number;
+  startId: number; // First id reserved for this job, so parallel jobs never collide
+}
 
-    const currentProgress = 10 + Math.round((i / numChunks) * 80); // Progress from 10% to 90% during chunk processing
+// Estimates are recomputed whenever a count or difficulty changes, but the content they tokenize rarely does,
+// so chunk splits and chunk token counts are kept for the most recent texts. Loading the tokenizer changes
+// every count, so the caches start over when it does.
+const MAX_CACHED_TEXTS = 32;
+const chunkSplitCache = new Map<string, string[]>();
+const chunkTokenCache = new Map<string, number>();
+let cachesUseTokenizer = false;
+
+const getCached = <T>(cache: Map<string, T>, text: string, compute: () => T): T => {
+  if (cachesUseTokenizer !== isTokenizerLoaded()) {
+    chunkSplitCache.clear();
+    chunkTokenCache.clear();
+    cachesUseTokenizer = isTokenizerLoaded();
+  }
+  if (cache.has(text)) return cache.get(text);
+  if (cache.size >= MAX_CACHED_TEXTS) cache.delete(cache.keys().next().value);
+  const value = compute();
+  cache.set(text, value);
+  return value;
+};
 
-  if (mcqsForThisChunk > 0) {
-    onProgress?.({ value: currentProgress, message: `Chunk ${i + 1}/${numChunks}: Generating ${mcqsForThisChunk} MCQs...` });
-    const prompt = createQuestionGenerationPrompt(chunkContent, mcqsForThisChunk, 0, 0, difficulty);
-    try {
-      const responseText = await callGeminiApi(apiKey, prompt);
-      const { questions: parsedMcqs, newId } = parseMCQText(responseText, mcqsForThisChunk, overallQuestionId);
-      parsedMcqs.forEach(q => allGeneratedQuestions.push(q));
-      overallQuestionId = newId;
-      totalMcqsGenerated += parsedMcqs.length; // Actual count generated
-    } catch (error) {
-      console.error(`Failed to generate or parse MCQs for chunk ${i + 1}:`, error);
-      for (let j = 0; j < mcqsForThisChunk; j++) {
-        allGeneratedQuestions.push({ id: `mcq_err_${overallQuestionId++}`, type: 'mcq', question: `Error generating MCQ (chunk ${i+1})`, options: [], answer: "", explanation: error instanceof Error ? error.message : String(error) });
+/**
+ * Plans every chunk x type job up front so they can run in parallel.
+ * Counts are spread evenly across a target's chunks; shortfalls are handled by the repair loop.
+ */
+const planQuestionJobs = (targets: GenerationTarget[]): QuestionJob[] => {
+  const questionTypes: QuestionType[] = ['mcq', 'fillblank', 'truefalse'];
+  const jobs: QuestionJob[] = [];
+  let nextId = 1;
+  for (const target of targets) {
+    const contentChunks = getCached(chunkSplitCache, target.content, () => splitContentIntoChunks(target.content, MAX_TOKENS_PER_CHUNK_QUESTION_GEN));
+    const numChunks = contentChunks.length;
+    const remaining: Record<QuestionType, number> = { ...target.counts };
+    for (let i = 0; i < numChunks; i++) {
+      for (const type of questionTypes) {
+        const count = Math.ceil(remaining[type] / (numChunks - i));
+        if (count <= 0) continue;
+        jobs.push({ target, chunkContent: contentChunks[i], chunkIndex: i, type, count, startId: nextId });
+        nextId += count;
+        remaining[type] -= count;
       }
     }
   }
+  return jobs;
+};
 
-  if (fillBlanksForThisChunk > 0) {
-    onProgress?.({ value: currentProgress + 5, message: `Chunk ${i + 1}/${numChunks}: Generating ${fillBlanksForThisChunk} Fill-blanks...` });
-    const prompt = createQuestionGenerationPrompt(chunkContent, 0, fillBlanksForThisChunk, 0, difficulty);
-    try {
-      const responseText = await callGeminiApi(apiKey, prompt);
-      const { questions: parsedFillBlanks, newId } = parseFillBlankText(responseText, fillBlanksForThisChunk, overallQuestionId);
-      parsedFillBlanks.forEach(q => allGeneratedQuestions.push(q));
-      overallQuestionId = newId;
-      totalFillBlanksGenerated += parsedFillBlanks.length;
-    } catch (error) {
-      console.error(`Failed to generate or parse Fill-blanks for chunk ${i + 1}:`, error);
-      for (let j = 0; j < fillBlanksForThisChunk; j++) {
-        allGeneratedQuestions.push({ id: `fill_err_${overallQuestionId++}`, type: 'fillblank', question: `Error generating Fill-blank (chunk ${i+1})`, answer: "", explanation: error instanceof Error ? error.message : String(error) });
-      }
+/**
+ * Estimates the tokens and cost of a generation before it runs. Repair prompts and
+ * cached responses are not predictable, so the estimate assumes one request per job
+ * (plus one per question when answers are verified).
+ * @param settings The provider settings (for pricing)
+ * @param content The content questions are generated from
+ * @param request The generation request
+ * @returns Request count, token totals and cost
+ */
+export const estimateQuestionGeneration = (
+  settings: AIProviderSettings,
+  content: string,
+  request: QuestionGenerationRequest
+): TokenEstimate => {
+  const jobs = planQuestionJobs(buildGenerationTargets(content, request));
+  // Chunks are counted once and cached; the template around them is counted per job
+  const countChunkTokens = (chunkContent: string) => getCached(chunkTokenCache, chunkContent, () => countTokens(chunkContent));
+  const template = getPromptTemplate('questions');
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (const job of jobs) {
+    inputTokens += countChunkTokens(job.chunkContent) + countTokens(createQuestionGenerationPrompt('', job.type, job.count, job.target.difficulty, job.target.topic, template));
+    outputTokens += OUTPUT_TOKENS_PER_RESPONSE + job.count * OUTPUT_TOKENS_PER_QUESTION[job.type];
+  }
+  // One verification request per question, sent with the chunk it was drawn from
+  let verificationRequests = 0;
+  if (request.verifyAnswers) {
+    const verificationPromptTokens = countTokens(createVerificationPrompt({ id: '', type: 'mcq', question: '', options: ['', '', '', ''], answer: '', explanation: '' }, ''));
+    for (const job of jobs) {
+      verificationRequests += job.count;
+      // The question itself is about as long as it was in the generation response
+      inputTokens += job.count * (countChunkTokens(job.chunkContent) + verificationPromptTokens + OUTPUT_TOKENS_PER_QUESTION[job.type]);
+      outputTokens += job.count * OUTPUT_TOKENS_PER_VERIFICATION;
     }
   }
+  return {
+    requests: jobs.length + verificationRequests,
+    inputTokens,
+    outputTokens,
+    costUSD: calculateCost(getModelPricing(settings), inputTokens, outputTokens),
+    exact: isTokenizerLoaded(),
+  };
+};
+
+export const generateQuestions = async (
+  settings: AIProviderSettings,
+  content: string,
+  request: QuestionGenerationRequest,
+  onProgress?: (progress: { value: number; message: string }) => void,
+  options: QuestionGenerationOptions = {}
+): Promise<QuestionGenerationResult> => {
+  assertProviderReady(settings);
+  const scheduler = getScheduler(settings);
+
+  const failures: GenerationFailure[] = [];
+  let totalRepairAttempts = 0;
+  let totalCachedResponses = 0;
+
+  if (options.concurrency !== undefined || options.requestsPerMinute !== undefined) {
+    scheduler.configure({
+      ...(options.concurrency !== undefined && { concurrency: options.concurrency }),
+      ...(options.requestsPerMinute !== undefined && { requestsPerMinute: options.requestsPerMinute }),
+    });
+  }
+
+  const targets = buildGenerationTargets(content, request);
+  const totalQuestionsRequested = targets.reduce((sum, t) => sum + t.counts.mcq + t.counts.fillblank + t.counts.truefalse, 0);
+  const buildResult = (questions: GeminiQuestion[]): QuestionGenerationResult => ({
+    questions,
+    summary: {
+      requested: totalQuestionsRequested,
+      generated: questions.length,
+      repairAttempts: totalRepairAttempts,
+      failures,
+      cachedResponses: totalCachedResponses,
+      cancelled: options.signal?.aborted ?? false,
+      ...(request.verifyAnswers && { verification: summarizeVerification(questions) }),
+    },
+  });
+
+  if (totalQuestionsRequested === 0) {
+    onProgress?.({ value: 100, message: "No questions requested."});
+    return buildResult([]);
+  }
+
+  onProgress?.({ value: 5, message: "Preparing content..." });
+  await loadTokenizer(); // Chunk sizes should use real token counts
+  const jobs = planQuestionJobs(targets);
+
+  let completedJobs = 0;
+  let questionsSoFar = 0;
+  // Progress from 10% to 95% while jobs complete, or to 80% when verification takes the rest
+  const generationSpan = request.verifyAnswers ? 70 : 85;
+  const reportProgress = () => {
+    const { active, queued } = scheduler.stats;
+    onProgress?.({
+      value: 10 + Math.round((completedJobs / jobs.length) * generationSpan),
+      message: `Generated ${questionsSoFar}/${totalQuestionsRequested} questions (${completedJobs}/${jobs.length} requests done, ${active} in flight, ${queued} queued)...`,
+    });
+  };
+  reportProgress();
+
+  // Tag each question with its target and link it to the document pages it came from
+  const chunks = request.chunks ?? [];
+  const finalizeQuestion = (job: QuestionJob, question: GeminiQuestion): GeminiQuestion => (
+    groundQuestion({ ...question, topic: job.target.topic, difficulty: job.target.difficulty }, chunks)
+  );
+
+  const outcomes = await Promise.all(jobs.map(async (job) => {
+    const onQuestions = options.onQuestions
+      ? (completed: GeminiQuestion[]) => options.onQuestions(completed.map(q => finalizeQuestion(job, q)))
+      : undefined;
+    const outcome = await generateQuestionsOfType(settings, job.chunkContent, job.chunkIndex, job.type, job.count, job.target.difficulty, job.target.topic, job.startId, options.signal, options.bypassCache, onQuestions);
+    // A retried stream or a repair pass can change questions after they were first reported
+    if (onQuestions && outcome.questions.length > 0) onQuestions(outcome.questions);
+    completedJobs++;
+    questionsSoFar += outcome.questions.length;
+    reportProgress();
+    return outcome;
+  }));
+
+  // Assemble in plan order so the exam layout does not depend on which request finished first
+  const allGeneratedQuestions: GeminiQuestion[] = [];
+  outcomes.forEach((outcome, index) => {
+    const { target } = jobs[index];
+    allGeneratedQuestions.push(...outcome.questions.map(q => finalizeQuestion(jobs[index], q)));
+    totalRepairAttempts += outcome.repairAttempts;
+    totalCachedResponses += outcome.cachedResponses;
+    if (outcome.failure) failures.push({ ...outcome.failure, topic: target.topic });
+  });
+
+  let finalQuestions = allGeneratedQuestions;
+  if (request.verifyAnswers && finalQuestions.length > 0 && !options.signal?.aborted) {
+    const total = finalQuestions.length;
+    const reportVerification = (verified: number) => onProgress?.({
+      value: 80 + Math.round((verified / total) * 15),
+      message: `Verifying answers (${verified}/${total} questions checked)...`,
+    });
+    reportVerification(0);
+    finalQuestions = await verifyQuestions(settings, content, request, finalQuestions, options.signal, options.bypassCache, reportVerification);
+  }
+
+  const shortfall = totalQuestionsRequested - finalQuestions.length;
+  if (options.signal?.aborted) {
+    onProgress?.({ value: 100, message: `Generation cancelled. ${finalQuestions.length} completed question(s) kept.` });
+    return buildResult(finalQuestions);
+  }
+  const flagged = finalQuestions.filter(q => q.verification?.status === 'flagged').length;
+  onProgress?.({
+    value: 100,
+    message: [
+      shortfall > 0 ? `Question generation complete. ${shortfall} question(s) could not be generated.` : "Question generation complete.",
+      flagged > 0 ? `${flagged} question(s) flagged by verification.` : '',
+    ].filter(Boolean).join(' ')
+  });
+  return buildResult(finalQuestions);
+};
+
+// Picks the chunk that shares the most keywords with a question, i.e. the one it was most likely drawn from
+const findSourceChunk = (contentChunks: string[], questionText: string): string => {
+  const keywords = extractTopicKeywords(questionText);
+  let best = contentChunks[0] ?? '';
+  let bestScore = -1;
+  for (const chunk of contentChunks) {
+    const lowerChunk = chunk.toLowerCase();
+    const score = keywords.filter(keyword => lowerChunk.includes(keyword)).length;
+    if (score > bestScore) {
+      best = chunk;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// The content a question was drawn from: the chunk it was grounded in, otherwise a guess from its wording
+const resolveSourceContent = (content: string, request: QuestionGenerationRequest, question: GeminiQuestion): string => {
+  const chunks = request.chunks ?? [];
+  const sourceChunk = chunks[question.grounding?.chunkIndex ?? -1];
+  if (sourceChunk) return sourceChunk.content;
+  const topicContent = question.topic && chunks.length > 0
+    ? selectContentForTopics([question.topic], chunks, content).content
+    : content;
+  return findSourceChunk(splitContentIntoChunks(topicContent, MAX_TOKENS_PER_CHUNK_QUESTION_GEN), question.question);
+};
+
+/**
+ * Has the model answer a question from its source without the answer key, and compares the two.
+ * Only cancellation is thrown; any other failure is recorded as a failed verification.
+ */
+const verifyQuestion = async (
+  settings: AIProviderSettings,
+  question: GeminiQuestion,
+  sourceContent: string,
+  signal?: AbortSignal,
+  bypassCache?: boolean
+): Promise<QuestionVerification> => {
+  try {
+    const responseText = await callProvider(settings, createVerificationPrompt(question, sourceContent), {
+      responseSchema: VERIFICATION_RESPONSE_SCHEMA,
+      signal,
+      context: { task: 'verification', question, content: sourceContent },
+      cache: {
+        kind: 'verification',
+        bypass: bypassCache,
+        accept: text => parseVerificationResponse(text) !== null,
+      },
+    });
+    const result = parseVerificationResponse(responseText);
+    if (!result) return createFailedVerification('The verification response could not be parsed.');
+    return evaluateVerification(question, result);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Failed to verify question ${question.id}:`, error);
+    return createFailedVerification(error instanceof Error ? error.message : String(error));
+  }
+};
 
-  if (trueFalseForThisChunk > 0) {
-    onProgress?.({ value: currentProgress + 10, message: `Chunk ${i + 1}/${numChunks}: Generating ${trueFalseForThisChunk} T/F...` });
-    const prompt = createQuestionGenerationPrompt(chunkContent, 0, 0, trueFalseForThisChunk, difficulty);
+// Verifies questions in parallel through the provider's scheduler; questions not checked before a cancellation are returned as they were
+const verifyQuestions = async (
+  settings: AIProviderSettings,
+  content: string,
+  request: QuestionGenerationRequest,
+  questions: GeminiQuestion[],
+  signal?: AbortSignal,
+  bypassCache?: boolean,
+  onVerified?: (verified: number) => void
+): Promise<GeminiQuestion[]> => {
+  let verified = 0;
+  return Promise.all(questions.map(async (question) => {
     try {
-      const responseText = await callGeminiApi(apiKey, prompt);
-      const { questions: parsedTrueFalse, newId } = parseTrueFalseText(responseText, trueFalseForThisChunk, overallQuestionId);
-      parsedTrueFalse.forEach(q => allGeneratedQuestions.push(q));
-      overallQuestionId = newId;
-      totalTrueFalseGenerated += parsedTrueFalse.length;
-    } catch (error) {
-      console.error(`Failed to generate or parse True/False for chunk ${i + 1}:`, error);
-      for (let j = 0; j < trueFalseForThisChunk; j++) {
-        allGeneratedQuestions.push({ id: `tf_err_${overallQuestionId++}`, type: 'truefalse', question: `Error generating T/F (chunk ${i+1})`, answer: false, explanation: error instanceof Error ? error.message : String(error) });
-      }
+      const verification = await verifyQuestion(settings, question, resolveSourceContent(content, request, question), signal, bypassCache);
+      onVerified?.(++verified);
+      return { ...question, verification };
+    } catch (_cancelled) {
+      return question;
     }
+  }));
+};
+
+const summarizeVerification = (questions: GeminiQuestion[]): GenerationSummary['verification'] => {
+  const countStatus = (status: QuestionVerification['status']) => questions.filter(q => q.verification?.status === status).length;
+  return { verified: countStatus('verified'), flagged: countStatus('flagged'), failed: countStatus('failed') };
+};
+
+/**
+ * Generates a replacement for a single question, with the same type, topic and difficulty
+ * @param settings The provider settings
+ * @param content The content the exam was generated from
+ * @param request The request the exam was generated with
+ * @param question The question to replace
+ * @param signal Cancels the request
+ * @returns The new question; it keeps the id of the question it replaces, and is verified when the request verifies answers
+ */
+export const regenerateQuestion = async (
+  settings: AIProviderSettings,
+  content: string,
+  request: QuestionGenerationRequest,
+  question: GeminiQuestion,
+  signal?: AbortSignal
+): Promise<GeminiQuestion> => {
+  assertProviderReady(settings);
+  await loadTokenizer();
+  const difficulty = question.difficulty ?? request.difficulty;
+  const contentChunk = resolveSourceContent(content, request, question);
+
+  const prompt = `${createQuestionGenerationPrompt(contentChunk, question.type, 1, difficulty, question.topic)}
+
+This question was rejected during review. Ask about something different from it:
+${question.question}`;
+  const responseText = await callProvider(settings, prompt, {
+    responseSchema: QUESTION_RESPONSE_SCHEMAS[question.type],
+    signal,
+    // Not cached: a cached replacement would be the same question every time
+    context: { task: 'questions', type: question.type, count: 1, difficulty, content: contentChunk, avoid: [question.question] },
+  });
+
+  const [replacement] = parseQuestionResponse(question.type, responseText, 1, 1).questions;
+  if (!replacement) {
+    throw new ResponseParseError('The AI response could not be parsed into a replacement question.', { provider: settings.provider });
   }
+  const grounded = groundQuestion({ ...replacement, id: question.id, topic: question.topic, difficulty }, request.chunks ?? []);
+  if (!request.verifyAnswers) return grounded;
+  const verification = await verifyQuestion(settings, grounded, resolveSourceContent(content, request, grounded), signal);
+  return { ...grounded, verification };
+};
+
+/**
+ * Embeds texts with the provider's embedding model, in batches
+ * @param settings The provider settings
+ * @param texts The texts to embed
+ * @param signal Cancels outstanding requests
+ * @returns One vector per text, in order
+ */
+export const embedTexts = async (settings: AIProviderSettings, texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+  assertProviderReady(settings);
+  if (!createAIProvider(settings).embedTexts) {
+    throw new BadRequestError(`${AI_PROVIDERS[settings.provider].label} does not offer embeddings.`, { provider: settings.provider });
   }
-  
-  onProgress?.({ value: 100, message: "Question generation complete." });
-  return allGeneratedQuestions;
+
+  const batches: string[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) batches.push(texts.slice(i, i + EMBEDDING_BATCH_SIZE));
+  const vectors = await Promise.all(batches.map(async (batch) => {
+    const batchVectors = await requestWithRetries(settings, provider => provider.embedTexts(batch, signal), signal);
+    recordUsage(settings, batch.reduce((sum, text) => sum + countTokens(text), 0), 0);
+    return batchVectors;
+  }));
+  return vectors.flat();
 };
 
+export interface ChatOptions {
+  signal?: AbortSignal; // Cancels the request; the AbortError is rethrown to the caller
+  bypassCache?: boolean; // Ask the provider again even if this exact question was answered before
+  history?: ChatTurn[]; // The conversation before this question, oldest first; trimmed to the history token budget
+  citePages?: boolean; // The material is labelled with its pages (e.g. "[p. 14]"); ask for those labels to be cited
+  onPartialText?: (text: string) => void; // Streams the answer; called with the full text received so far. Not called for cached answers
+}
+
+// Added outside the editable chat template so a custom persona cannot turn citations off
+const CHAT_CITATION_INSTRUCTIONS = `Each passage of the Study Material starts with its page label, such as [p. 14] or [pp. 12–13].
+After each statement you take from the material, cite the page it comes from in that form, e.g. "Mitochondria produce ATP [p. 14]."
+Only cite pages whose labels appear in the material.`;
+
+/**
+ * Answers a question about the study material, continuing the conversation in `options.history`.
+ * The document is sent with the latest question only; when the history exceeds its token budget,
+ * the oldest exchanges are replaced by a summary of the questions asked.
+ * With `options.citePages`, the model is asked to cite the page labels of the material inline.
+ * With `options.onPartialText`, the answer is streamed; if the stream fails, the error is thrown
+ * after the text received so far has been reported, so callers can keep the partial answer.
+ * @param settings The provider settings
+ * @param documentContent The study material
+ * @param userQuestion The student's latest question
+ * @param onProgress Progress callback
+ * @param options Cancellation, caching, conversation history, citations and streaming
+ * @returns The answer text
+ */
 export const chatWithContent = async (
-  apiKey: string,
+  settings: AIProviderSettings,
   documentContent: string,
   userQuestion: string,
-  onProgress?: (progress: { value: number; message: string }) => void
+  onProgress?: (progress: { value: number; message: string }) => void,
+  options: ChatOptions = {}
 ): Promise<string> => {
-  if (!apiKey) throw new Error("API Key is required for chat.");
+  assertProviderReady(settings);
+  throwIfAborted(options.signal);
   onProgress?.({ value: 20, message: "Formulating response..." });
   
-  const chatPrompt = `You are a helpful academic tutor. Answer the following Student Question based ONLY on the provided Study Material.
-Be clear, concise, and educational. If the answer is not in the material, say so.
-
-Study Material:
-"""
-${documentContent}
-"""
-
-Student Question:
-"""
-${userQuestion}
-"""
-
-Answer:`;
+  const { turns: history, summary } = fitChatHistory(toChatExchanges(options.history ?? []), MAX_CHAT_HISTORY_TOKENS, countTokens);
+  const templatePrompt = renderPromptTemplate(getPromptTemplate('chat'), { content: documentContent, question: userQuestion });
+  const chatPrompt = [summary, options.citePages ? CHAT_CITATION_INSTRUCTIONS : null, templatePrompt].filter(Boolean).join('\n\n');
   
   try {
     onProgress?.({ value: 50, message: "Getting response from AI..." });
-    const responseText = await callGeminiApi(apiKey, chatPrompt);
+    const responseText = await callProvider(settings, chatPrompt, {
+      signal: options.signal,
+      history: history.length > 0 ? history : undefined,
+      onPartialText: options.onPartialText,
+      context: { task: 'chat', content: documentContent, question: userQuestion },
+      cache: { kind: 'chat', bypass: options.bypassCache },
+    });
     onProgress?.({ value: 100, message: "Response received." });
     return responseText;
   } catch (error) {
-     console.error("Failed to get chat response:", error);
-     if (error instanceof Error) {
-        // Return the error message to be displayed in chat
-        return `Error communicating with AI: ${error.message}`;
-     }
-     return "An unexpected error occurred while trying to get a chat response.";
+    if (!isAbortError(error)) console.error("Failed to get chat response:", error);
+    throw error; // Typed AIProviderError (or AbortError); the chat UI decides how to present it
   }
 };
 
@@ -0,0 +1,23 @@
+export type PDFErrorCode =
+  | 'INVALID_FILE_TYPE'
+  | 'FILE_TOO_LARGE'
+  | 'OCR_INIT_FAILED_NO_TEXT'
+  | 'NO_TEXT_EXTRACTED'
+  | 'NO_TEXT_EXTRACTED_OCR_EMPTY'
+  | 'PROCESSING_FAILED'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * Error raised while reading an uploaded PDF. Kept apart from the PDF pipeline so error
+ * handling can recognize it without loading pdf.js.
+ */
+export class PDFProcessingError extends Error {
+  constructor(
+    message: string,
+    public code: PDFErrorCode,
+    public recoverable: boolean = true
+  ) {
+    super(message);
+    this.name = 'PDFProcessingError';
+  }
+}
@@ -1,6 +1,7 @@
 
 import * as pdfjsLib from 'pdfjs-dist';
 import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.entry';
+import { countTokens, loadTokenizer } from './tokenizer';
 
 // Configure worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
@@ -20,11 +21,6 @@ export interface PDFExtractionResult {
   fullText: string;
 }
 
-// Simple token estimation
-const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
-};
-
 // Extract headings from text (simple heuristic)
 const extractHeadings = (text: string): string[] => {
   const headings: string[] = [];
@@ -55,13 +51,13 @@ const chunkText = (text: string, maxTokens: number = 2000): PDFChunk[] => {
     const sentence = sentences[i].trim() + '.';
     const potentialChunk = currentChunk + (currentChunk ? ' ' : '') + sentence;
     
-    if (estimateTokens(potentialChunk) > maxTokens && currentChunk) {
+    if (countTokens(potentialChunk) > maxTokens && currentChunk) {
       // Save current chunk
       chunks.push({
         content: currentChunk,
         pageStart: chunkStart,
         pageEnd: i - 1,
-        tokenCount: estimateTokens(currentChunk)
+        tokenCount: countTokens(currentChunk)
       });
       // Start new chunk
       currentChunk = sentence;
@@ -77,7 +73,7 @@ const chunkText = (text: string, maxTokens: number = 2000): PDFChunk[] => {
       content: currentChunk,
       pageStart: chunkStart,
       pageEnd: sentences.length - 1,
-      tokenCount: estimateTokens(currentChunk)
+      tokenCount: countTokens(currentChunk)
     });
   }
   
@@ -108,6 +104,7 @@ export const processPDF = async (file: File): Promise<PDFExtractionResult> => {
   const topics = extractHeadings(fullText);
   
   // Create chunks
+  await loadTokenizer();
   const chunks = chunkText(fullText);
   
   return {
@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import { PromptTemplateDefinition, PromptTemplateId, PromptTemplateValidation, StoredPromptTemplate } from '../types';
+
+/**
+ * Registry of the user-editable prompt templates.
+ * Templates use named variables such as {content}; saved edits are kept in local storage
+ * together with a short version history per template.
+ */
+
+const PROMPT_TEMPLATES_STORAGE_KEY = 'mocksmart-prompt-templates';
+const MAX_HISTORY_VERSIONS = 20;
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  questions: {
+    id: 'questions',
+    label: 'Question generation',
+    description: 'Sent once per content section and question type. The JSON answer format is appended automatically, so the template only needs to describe the questions.',
+    variables: [
+      { name: 'content', description: 'The section of the document to write questions about', required: true },
+      { name: 'count', description: 'How many questions to generate', required: true },
+      { name: 'questionType', description: 'E.g. "multiple choice questions"', required: true },
+      { name: 'difficulty', description: 'beginner, intermediate or advanced', required: false },
+      { name: 'topic', description: 'The blueprint topic, or "the topics in the content"', required: false },
+    ],
+    defaultTemplate: `Based on the following academic content, generate exactly {count} {questionType}.
+All questions should be at a {difficulty} difficulty level and cover {topic}.
+
+Content:
+"""
+{content}
+"""`,
+  },
+  chat: {
+    id: 'chat',
+    label: 'Chat tutor persona',
+    description: 'Sent with each question asked in the study chat. Earlier turns of the conversation are sent before it as separate messages.',
+    variables: [
+      { name: 'content', description: 'The study material: the chunks most relevant to the question, each labelled with its pages', required: true },
+      { name: 'question', description: "The student's question", required: true },
+    ],
+    defaultTemplate: `You are a helpful academic tutor. Answer the following Student Question based ONLY on the provided Study Material.
+Be clear, concise, and educational. If the answer is not in the material, say so.
+
+Study Material:
+"""
+{content}
+"""
+
+Student Question:
+"""
+{question}
+"""
+
+Answer:`,
+  },
+};
+
+const storedTemplateSchema = z.object({
+  current: z.string(),
+  history: z.array(z.object({
+    template: z.string(),
+    savedAt: z.number(),
+    isDefault: z.boolean(),
+  })),
+});
+
+const storedTemplatesSchema = z.record(z.string(), storedTemplateSchema);
+
+const loadStoredTemplates = (): Partial<Record<PromptTemplateId, StoredPromptTemplate>> => {
+  try {
+    const raw = localStorage.getItem(PROMPT_TEMPLATES_STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = storedTemplatesSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      console.warn('Ignoring invalid saved prompt templates:', parsed.error.issues);
+      return {};
+    }
+    return parsed.data as Partial<Record<PromptTemplateId, StoredPromptTemplate>>;
+  } catch (error) {
+    console.warn('Failed to load prompt templates:', error);
+    return {};
+  }
+};
+
+/**
+ * Reads a template with its version history
+ * @param id The template
+ * @returns The saved template, or the built-in default with an empty history
+ */
+export const loadPromptTemplate = (id: PromptTemplateId): StoredPromptTemplate => {
+  return loadStoredTemplates()[id] ?? { current: PROMPT_TEMPLATES[id].defaultTemplate, history: [] };
+};
+
+/**
+ * Reads the template text used for requests
+ * @param id The template
+ * @returns The saved template, or the built-in default
+ */
+export const getPromptTemplate = (id: PromptTemplateId): string => loadPromptTemplate(id).current;
+
+/**
+ * Lists the {variables} used in a template
+ * @param template The template text
+ * @returns Unique variable names in order of appearance
+ */
+export const extractTemplateVariables = (template: string): string[] => {
+  return [...new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]))];
+};
+
+/**
+ * Checks that a template contains every required variable and no unknown ones
+ * @param id The template it is meant for
+ * @param template The template text
+ * @returns Errors (blocking) and warnings
+ */
+export const validatePromptTemplate = (id: PromptTemplateId, template: string): PromptTemplateValidation => {
+  const definition = PROMPT_TEMPLATES[id];
+  const used = extractTemplateVariables(template);
+  const known = new Set(definition.variables.map(v => v.name));
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!template.trim()) {
+    errors.push('The template is empty.');
+  }
+  for (const variable of definition.variables) {
+    if (variable.required && !used.includes(variable.name)) {
+      errors.push(`Missing required variable {${variable.name}} (${variable.description.toLowerCase()}).`);
+    }
+  }
+  for (const name of used) {
+    if (!known.has(name)) {
+      warnings.push(`{${name}} is not a known variable and will be sent as written.`);
+    }
+  }
+  return { errors, warnings };
+};
+
+/**
+ * Fills a template's variables. Unknown variables are left as written, and substituted
+ * values are not scanned again, so braces inside the document content are safe.
+ * @param template The template text
+ * @param values Variable values
+ * @returns The prompt
+ */
+export const renderPromptTemplate = (template: string, values: Record<string, string | number>): string => {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) => (name in values ? String(values[name]) : match));
+};
+
+const storeTemplate = (id: PromptTemplateId, template: string, isDefault: boolean): StoredPromptTemplate => {
+  const stored = loadStoredTemplates();
+  const previous = stored[id] ?? { current: PROMPT_TEMPLATES[id].defaultTemplate, history: [] };
+  const next: StoredPromptTemplate = {
+    current: template,
+    history: [{ template, savedAt: Date.now(), isDefault }, ...previous.history].slice(0, MAX_HISTORY_VERSIONS),
+  };
+  localStorage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, JSON.stringify({ ...stored, [id]: next }));
+  return next;
+};
+
+/**
+ * Saves a new version of a template
+ * @param id The template
+ * @param template The new template text
+ * @returns The updated template and history
+ * @throws Error if the template fails validation
+ */
+export const savePromptTemplate = (id: PromptTemplateId, template: string): StoredPromptTemplate => {
+  const { errors } = validatePromptTemplate(id, template);
+  if (errors.length > 0) {
+    throw new Error(errors.join(' '));
+  }
+  return storeTemplate(id, template, false);
+};
+
+/**
+ * Restores the built-in template. The replaced version stays in the history.
+ * @param id The template
+ * @returns The updated template and history
+ */
+export const resetPromptTemplate = (id: PromptTemplateId): StoredPromptTemplate => {
+  return storeTemplate(id, PROMPT_TEMPLATES[id].defaultTemplate, true);
+};
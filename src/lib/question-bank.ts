@@ -0,0 +1,179 @@
+import { BankQuestion, EnhancedPDFChunk, GeminiQuestion, QuestionBankFilter, QuestionResult, QuestionSource } from '../types';
+import { createStoreRunner, requestToPromise } from './utils/indexeddb-utils';
+import { normalizeAnswerText } from './utils/grading-utils';
+import { findBestMatchingChunk } from './utils/grounding-utils';
+
+/**
+ * Question bank stored in IndexedDB, so generated questions survive reloads and can be
+ * reassembled into new exams without calling the AI again.
+ * Unlike the response cache, failures are reported to the caller: losing saved questions silently would be worse.
+ */
+
+const DB_NAME = 'mocksmart-question-bank';
+const DB_VERSION = 1;
+const STORE_NAME = 'questions';
+export const UNKNOWN_DOCUMENT = 'Unknown document';
+
+export const EMPTY_BANK_FILTER: QuestionBankFilter = {
+  search: '',
+  documentName: null,
+  type: null,
+  difficulty: null,
+  tag: null,
+};
+
+const withStore = createStoreRunner({
+  dbName: DB_NAME,
+  version: DB_VERSION,
+  storeName: STORE_NAME,
+  upgrade: (db) => {
+    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex('fingerprint', 'fingerprint', { unique: true });
+  },
+});
+
+const createBankId = (): string => `qb_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const createFingerprint = (documentName: string, question: GeminiQuestion): string => {
+  return `${documentName}|${question.type}|${normalizeAnswerText(question.question)}`;
+};
+
+/**
+ * Describes where a question came from, using its grounding when generation recorded one
+ * @param question The question
+ * @param documentName Name of the source document
+ * @param chunks Chunks of the source document
+ * @returns The source, with chunk and pages when they are known
+ */
+export const locateQuestionSource = (question: GeminiQuestion, documentName: string, chunks: EnhancedPDFChunk[]): QuestionSource => {
+  const { chunkIndex, pageStart, pageEnd } = question.grounding ?? {};
+  if (chunkIndex !== undefined) return { documentName, chunkIndex, pageStart, pageEnd };
+
+  const bestChunk = findBestMatchingChunk(`${question.question} ${question.answer} ${question.explanation}`, chunks, question.topic);
+  if (bestChunk < 0) return { documentName };
+  return { documentName, chunkIndex: bestChunk, pageStart: chunks[bestChunk].pageStart, pageEnd: chunks[bestChunk].pageEnd };
+};
+
+/**
+ * Saves questions to the bank. Questions already in the bank (same document, type and text)
+ * are updated in place, keeping their tags and stats. Repeats within `questions` are saved once.
+ * @param questions The questions to save
+ * @param documentName Name of the source document
+ * @param chunks Chunks of the source document, used to record where each question came from
+ * @returns The bank entries, in the order of `questions`; repeated questions share the entry of their first occurrence
+ */
+export const saveQuestionsToBank = async (
+  questions: GeminiQuestion[],
+  documentName: string = UNKNOWN_DOCUMENT,
+  chunks: EnhancedPDFChunk[] = []
+): Promise<BankQuestion[]> => {
+  const now = Date.now();
+  return withStore('readwrite', async (store) => {
+    const fingerprints = store.index('fingerprint');
+    const saved: BankQuestion[] = [];
+    const savedByFingerprint = new Map<string, BankQuestion>();
+    for (const question of questions) {
+      const fingerprint = createFingerprint(documentName, question);
+      const savedInBatch = savedByFingerprint.get(fingerprint);
+      if (savedInBatch) {
+        saved.push(savedInBatch);
+        continue;
+      }
+      const existing = await requestToPromise<BankQuestion | undefined>(fingerprints.get(fingerprint));
+      const id = existing?.id ?? createBankId();
+      const entry: BankQuestion = {
+        id,
+        fingerprint,
+        question: { ...question, id },
+        source: locateQuestionSource(question, documentName, chunks),
+        tags: existing?.tags ?? [],
+        createdAt: existing?.createdAt ?? now,
+        stats: existing?.stats ?? { timesUsed: 0, timesCorrect: 0, timesSkipped: 0, lastUsedAt: null },
+      };
+      store.put(entry);
+      savedByFingerprint.set(fingerprint, entry);
+      saved.push(entry);
+    }
+    return saved;
+  });
+};
+
+/**
+ * Loads every question in the bank, newest first
+ * @returns The bank entries
+ */
+export const loadBankQuestions = async (): Promise<BankQuestion[]> => {
+  const entries = await withStore('readonly', (store) => requestToPromise<BankQuestion[]>(store.getAll()));
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Replaces the tags of bank questions
+ * @param ids The questions to update
+ * @param update Computes the new tags from the current ones
+ */
+export const updateBankQuestionTags = async (ids: string[], update: (tags: string[]) => string[]): Promise<void> => {
+  await withStore('readwrite', async (store) => {
+    for (const id of ids) {
+      const entry = await requestToPromise<BankQuestion | undefined>(store.get(id));
+      if (!entry) continue;
+      const tags = [...new Set(update(entry.tags).map(tag => tag.trim()).filter(Boolean))].sort();
+      store.put({ ...entry, tags });
+    }
+  });
+};
+
+/**
+ * Deletes questions from the bank
+ * @param ids The questions to delete
+ */
+export const deleteBankQuestions = async (ids: string[]): Promise<void> => {
+  await withStore('readwrite', async (store) => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+/**
+ * Updates usage stats after an exam. Results for questions that are not in the bank are ignored.
+ * @param results One result per exam question
+ */
+export const recordQuestionResults = async (results: QuestionResult[]): Promise<void> => {
+  const now = Date.now();
+  await withStore('readwrite', async (store) => {
+    for (const result of results) {
+      const entry = await requestToPromise<BankQuestion | undefined>(store.get(result.questionId));
+      if (!entry) continue;
+      store.put({
+        ...entry,
+        stats: {
+          timesUsed: entry.stats.timesUsed + 1,
+          timesCorrect: entry.stats.timesCorrect + (result.correct ? 1 : 0),
+          timesSkipped: entry.stats.timesSkipped + (result.answered ? 0 : 1),
+          lastUsedAt: now,
+        },
+      });
+    }
+  });
+};
+
+/**
+ * Filters bank questions by text, document, type, difficulty and tag
+ * @param entries The bank entries
+ * @param filter The filter; null fields match everything
+ * @returns The matching entries, in their original order
+ */
+export const filterBankQuestions = (entries: BankQuestion[], filter: QuestionBankFilter): BankQuestion[] => {
+  const search = filter.search.trim().toLowerCase();
+  return entries.filter(entry => {
+    const { question } = entry;
+    if (filter.documentName && entry.source.documentName !== filter.documentName) return false;
+    if (filter.type && question.type !== filter.type) return false;
+    if (filter.difficulty && question.difficulty !== filter.difficulty) return false;
+    if (filter.tag && !entry.tags.includes(filter.tag)) return false;
+    if (!search) return true;
+    const haystack = [question.question, ...(question.options ?? []), String(question.answer), question.explanation, question.topic ?? '', ...entry.tags]
+      .join(' ')
+      .toLowerCase();
+    return haystack.includes(search);
+  });
+};
@@ -0,0 +1,156 @@
+import { createAbortError } from './utils/abort-utils';
+
+export interface RequestSchedulerOptions {
+  concurrency: number; // Maximum number of requests in flight
+  requestsPerMinute: number; // Sustained request rate allowed by the token bucket
+  burst?: number; // Bucket capacity; defaults to the concurrency
+}
+
+/**
+ * Schedules async requests with a concurrency limit and a token-bucket rate limiter.
+ * A rate-limit response can pause the whole scheduler so parallel jobs back off together.
+ */
+export class RequestScheduler {
+  private options: Required<RequestSchedulerOptions>;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RequestSchedulerOptions) {
+    this.options = RequestScheduler.resolveOptions(options);
+    this.tokens = this.options.burst;
+  }
+
+  private static resolveOptions(options: RequestSchedulerOptions): Required<RequestSchedulerOptions> {
+    const concurrency = Math.max(1, Math.floor(options.concurrency));
+    return {
+      concurrency,
+      requestsPerMinute: Math.max(1, options.requestsPerMinute),
+      burst: Math.max(1, Math.floor(options.burst ?? concurrency)),
+    };
+  }
+
+  /**
+   * Updates the limits; queued requests pick up the new values immediately
+   * @param options The limits to change
+   */
+  public configure(options: Partial<RequestSchedulerOptions>): void {
+    this.options = RequestScheduler.resolveOptions({ ...this.options, ...options });
+    this.tokens = Math.min(this.tokens, this.options.burst);
+    this.pump();
+  }
+
+  /**
+   * Current load, for progress reporting
+   */
+  public get stats(): { active: number; queued: number } {
+    return { active: this.active, queued: this.queue.length };
+  }
+
+  /**
+   * Runs a task once a concurrency slot and a rate token are available
+   * @param task The request to run
+   * @param signal Optional cancellation signal; aborting drops the task from the queue
+   * @returns The task's result
+   */
+  public schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(start);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          reject(createAbortError());
+        }
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            this.active--;
+            this.pump();
+          });
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(start);
+      this.pump();
+    });
+  }
+
+  /**
+   * Holds back every queued request, e.g. after a 429 with a Retry-After hint
+   * @param delayMs How long to pause, in milliseconds
+   */
+  public pauseFor(delayMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+    this.tokens = 0; // Start refilling from empty once the pause ends
+    this.lastRefill = this.pausedUntil;
+    this.pump();
+  }
+
+  private refill(now: number): void {
+    if (now <= this.lastRefill) return;
+    const tokensPerMs = this.options.requestsPerMinute / 60000;
+    this.tokens = Math.min(this.options.burst, this.tokens + (now - this.lastRefill) * tokensPerMs);
+    this.lastRefill = now;
+  }
+
+  private wakeIn(delayMs: number): void {
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.pump();
+    }, Math.max(0, Math.ceil(delayMs)));
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0 && this.active < this.options.concurrency) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.wakeIn(this.pausedUntil - now);
+        return;
+      }
+
+      this.refill(now);
+      if (this.tokens < 1) {
+        this.wakeIn(((1 - this.tokens) * 60000) / this.options.requestsPerMinute);
+        return;
+      }
+
+      this.tokens -= 1;
+      const start = this.queue.shift()!;
+      start();
+    }
+  }
+}
+
+/**
+ * Reads a server-provided retry delay from a Retry-After header (seconds or HTTP date)
+ * or from a Google RPC `RetryInfo.retryDelay` detail such as "37s".
+ * @param retryAfterHeader The Retry-After header value, if any
+ * @param errorBody The parsed error response body, if any
+ * @returns Delay in milliseconds, or null if the response carries no hint
+ */
+export const parseRetryAfterMs = (retryAfterHeader: string | null, errorBody?: unknown): number | null => {
+  if (retryAfterHeader) {
+    const seconds = Number(retryAfterHeader);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+    const date = Date.parse(retryAfterHeader);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const details = (errorBody as { error?: { details?: Array<{ retryDelay?: string }> } })?.error?.details;
+  const retryDelay = details?.find(detail => typeof detail?.retryDelay === 'string')?.retryDelay;
+  const match = retryDelay?.match(/^(\d+(?:\.\d+)?)s$/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+};
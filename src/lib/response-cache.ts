@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { CachedResponseKind, CacheSettings, CacheStats, ChunkCacheItem } from '../types';
+import { createStoreRunner, requestToPromise } from './utils/indexeddb-utils';
+
+/**
+ * Persistent, content-addressed cache of AI responses stored in IndexedDB.
+ * Entries are keyed by a SHA-256 hash of everything that determines a response, so
+ * regenerating an exam from the same PDF does not re-bill unchanged chunks.
+ * Every operation degrades to a cache miss when IndexedDB or WebCrypto is unavailable.
+ */
+
+const DB_NAME = 'mocksmart-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+const CACHE_SETTINGS_STORAGE_KEY = 'mocksmart-cache-settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  enabled: true,
+  ttlDays: 7,
+  maxSizeMB: 50,
+};
+
+const cacheSettingsSchema = z.object({
+  enabled: z.boolean(),
+  ttlDays: z.number().min(1).max(365),
+  maxSizeMB: z.number().min(1).max(1000),
+});
+
+const withStore = createStoreRunner({
+  dbName: DB_NAME,
+  version: DB_VERSION,
+  storeName: STORE_NAME,
+  upgrade: (db) => {
+    const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    store.createIndex('lastAccessedAt', 'lastAccessedAt');
+  },
+});
+
+/**
+ * Loads the cache settings from local storage
+ * @returns The saved settings, or the defaults
+ */
+export const loadCacheSettings = (): CacheSettings => {
+  try {
+    const raw = localStorage.getItem(CACHE_SETTINGS_STORAGE_KEY);
+    const parsed = raw ? cacheSettingsSchema.safeParse(JSON.parse(raw)) : null;
+    return parsed?.success ? (parsed.data as CacheSettings) : { ...DEFAULT_CACHE_SETTINGS };
+  } catch (error) {
+    console.warn('Failed to load cache settings:', error);
+    return { ...DEFAULT_CACHE_SETTINGS };
+  }
+};
+
+/**
+ * Saves the cache settings and applies the new limits to the stored entries
+ * @param settings The settings to save
+ */
+export const saveCacheSettings = async (settings: CacheSettings): Promise<void> => {
+  localStorage.setItem(CACHE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  await enforceCacheLimits(settings);
+};
+
+// Serializes with sorted object keys so equal inputs always hash the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Hashes everything that determines a response into a cache key
+ * @param parts Prompt, provider, model, generation parameters, ...
+ * @returns Hex SHA-256 digest, or null if WebCrypto is unavailable (non-secure context)
+ */
+export const createCacheKey = async (parts: Record<string, unknown>): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(stableStringify(parts)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Reads a cached response, dropping it if it has expired
+ * @param key The cache key
+ * @param settings Cache settings (for the TTL)
+ * @returns The cached response text, or null on a miss
+ */
+export const getCachedResponse = async (key: string, settings: CacheSettings = loadCacheSettings()): Promise<string | null> => {
+  try {
+    return await withStore('readwrite', async (store) => {
+      const entry = await requestToPromise<ChunkCacheItem | undefined>(store.get(key));
+      if (!entry) return null;
+      const now = Date.now();
+      if (now - entry.createdAt > settings.ttlDays * DAY_MS) {
+        store.delete(key);
+        return null;
+      }
+      store.put({ ...entry, lastAccessedAt: now, hits: entry.hits + 1 });
+      return entry.response;
+    });
+  } catch (error) {
+    console.warn('Response cache read failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Stores a response and evicts old entries if the cache grew past its size limit
+ * @param key The cache key
+ * @param entry What to store
+ * @param settings Cache settings (for the size limit)
+ */
+export const setCachedResponse = async (
+  key: string,
+  entry: Pick<ChunkCacheItem, 'kind' | 'provider' | 'model' | 'response'>,
+  settings: CacheSettings = loadCacheSettings()
+): Promise<void> => {
+  try {
+    const now = Date.now();
+    const item: ChunkCacheItem = {
+      ...entry,
+      key,
+      sizeBytes: entry.response.length * 2, // UTF-16, as stored by the browser
+      createdAt: now,
+      lastAccessedAt: now,
+      hits: 0,
+    };
+    await withStore('readwrite', async (store) => {
+      store.put(item);
+    });
+    await enforceCacheLimits(settings);
+  } catch (error) {
+    console.warn('Response cache write failed:', error);
+  }
+};
+
+/**
+ * Removes expired entries, then the least recently used ones until the cache fits its size limit
+ * @param settings Cache settings with the limits to apply
+ */
+export const enforceCacheLimits = async (settings: CacheSettings = loadCacheSettings()): Promise<void> => {
+  try {
+    await withStore('readwrite', async (store) => {
+      const entries = await requestToPromise<ChunkCacheItem[]>(store.getAll());
+      const now = Date.now();
+      const maxBytes = settings.maxSizeMB * 1024 * 1024;
+      let totalBytes = 0;
+      const live: ChunkCacheItem[] = [];
+      for (const entry of entries) {
+        if (now - entry.createdAt > settings.ttlDays * DAY_MS) {
+          store.delete(entry.key);
+        } else {
+          live.push(entry);
+          totalBytes += entry.sizeBytes;
+        }
+      }
+      live.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+      for (const entry of live) {
+        if (totalBytes <= maxBytes) break;
+        store.delete(entry.key);
+        totalBytes -= entry.sizeBytes;
+      }
+    });
+  } catch (error) {
+    console.warn('Response cache cleanup failed:', error);
+  }
+};
+
+/**
+ * Summarises the cache contents for the settings panel
+ * @returns Entry counts, size and hit totals
+ */
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const stats: CacheStats = { entries: 0, sizeBytes: 0, hits: 0, byKind: { questions: 0, chat: 0, verification: 0 }, oldestCreatedAt: null };
+  try {
+    const entries = await withStore('readonly', store => requestToPromise<ChunkCacheItem[]>(store.getAll()));
+    for (const entry of entries) {
+      stats.entries++;
+      stats.sizeBytes += entry.sizeBytes;
+      stats.hits += entry.hits;
+      stats.byKind[entry.kind as CachedResponseKind]++;
+      stats.oldestCreatedAt = Math.min(stats.oldestCreatedAt ?? entry.createdAt, entry.createdAt);
+    }
+  } catch (error) {
+    console.warn('Response cache stats unavailable:', error);
+  }
+  return stats;
+};
+
+/**
+ * Deletes every cached response
+ */
+export const clearResponseCache = async (): Promise<void> => {
+  await withStore('readwrite', async (store) => {
+    store.clear();
+  });
+};
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { AIProviderSettings, EnhancedPDFChunk, RetrievalResult, RetrievalSettings, RetrievedChunk } from '../types';
+import { embedTexts } from './geminiApi';
+import { isAbortError } from './utils/abort-utils';
+import { formatPageRanges, tokenizeKeywords } from './utils/topic-utils';
+
+/**
+ * Local retrieval over a document's chunks for the study chat. Chunks are ranked with BM25
+ * and, optionally, the cosine similarity of provider embeddings, so each question is answered
+ * from the chunks relevant to it instead of the whole document.
+ */
+
+const RETRIEVAL_SETTINGS_STORAGE_KEY = 'mocksmart-retrieval-settings';
+const BM25_K1 = 1.2; // Term frequency saturation
+const BM25_B = 0.75; // Document length normalization
+const EMBEDDING_WEIGHT = 0.5; // Share of the combined score given to embedding similarity
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  topK: 4,
+  useEmbeddings: false,
+};
+
+const retrievalSettingsSchema = z.object({
+  topK: z.number().int().min(1).max(20),
+  useEmbeddings: z.boolean(),
+});
+
+export interface RetrievalIndex {
+  chunks: EnhancedPDFChunk[];
+  termFrequencies: Map<string, number>[]; // Per chunk
+  documentFrequencies: Map<string, number>; // Chunks containing each term
+  lengths: number[]; // Terms per chunk
+  averageLength: number;
+  embeddings: Map<string, Promise<number[][]>>; // Chunk vectors per provider endpoint, computed on first use
+}
+
+/**
+ * Loads the retrieval settings from local storage
+ * @returns The saved settings, or the defaults
+ */
+export const loadRetrievalSettings = (): RetrievalSettings => {
+  try {
+    const raw = localStorage.getItem(RETRIEVAL_SETTINGS_STORAGE_KEY);
+    const parsed = raw ? retrievalSettingsSchema.safeParse(JSON.parse(raw)) : null;
+    return parsed?.success ? (parsed.data as RetrievalSettings) : { ...DEFAULT_RETRIEVAL_SETTINGS };
+  } catch (error) {
+    console.warn('Failed to load retrieval settings:', error);
+    return { ...DEFAULT_RETRIEVAL_SETTINGS };
+  }
+};
+
+/**
+ * Saves the retrieval settings to local storage
+ * @param settings The settings to save
+ */
+export const saveRetrievalSettings = (settings: RetrievalSettings): void => {
+  localStorage.setItem(RETRIEVAL_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Headings are indexed with the content: a question often names the section it is about
+const chunkText = (chunk: EnhancedPDFChunk): string => (chunk.heading ? `${chunk.heading}\n${chunk.content}` : chunk.content);
+
+/**
+ * Builds the BM25 index of a document's chunks
+ * @param chunks The document chunks
+ * @returns The index; embeddings are added lazily when they are first used
+ */
+export const createRetrievalIndex = (chunks: EnhancedPDFChunk[]): RetrievalIndex => {
+  const documentFrequencies = new Map<string, number>();
+  const termFrequencies = chunks.map(chunk => {
+    const frequencies = new Map<string, number>();
+    tokenizeKeywords(chunkText(chunk)).forEach(term => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+    frequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1));
+    return frequencies;
+  });
+  const lengths = termFrequencies.map(frequencies => [...frequencies.values()].reduce((sum, count) => sum + count, 0));
+  const averageLength = lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0;
+  return { chunks, termFrequencies, documentFrequencies, lengths, averageLength, embeddings: new Map() };
+};
+
+const scoreBm25 = (index: RetrievalIndex, query: string): number[] => {
+  const terms = [...new Set(tokenizeKeywords(query))];
+  const chunkCount = index.chunks.length;
+  return index.termFrequencies.map((frequencies, chunkIndex) => {
+    const lengthRatio = index.averageLength > 0 ? index.lengths[chunkIndex] / index.averageLength : 1;
+    return terms.reduce((score, term) => {
+      const frequency = frequencies.get(term) ?? 0;
+      if (frequency === 0) return score;
+      const documentFrequency = index.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(1 + (chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      return score + idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+    }, 0);
+  });
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Chunk vectors are requested once per provider endpoint; a failed request is retried on the next question
+const getChunkEmbeddings = (aiSettings: AIProviderSettings, index: RetrievalIndex, signal?: AbortSignal): Promise<number[][]> => {
+  const key = `${aiSettings.provider}|${aiSettings.baseUrl}`;
+  let pending = index.embeddings.get(key);
+  if (!pending) {
+    pending = embedTexts(aiSettings, index.chunks.map(chunkText), signal);
+    index.embeddings.set(key, pending);
+    pending.catch(() => index.embeddings.delete(key));
+  }
+  return pending;
+};
+
+/**
+ * Formats retrieved chunks as chat context, each labelled with its pages (e.g. "[p. 14]")
+ * @param index The retrieval index
+ * @param retrieved The chunks to include
+ * @returns The context text
+ */
+export const formatRetrievedContent = (index: RetrievalIndex, retrieved: RetrievedChunk[]): string => {
+  return retrieved
+    .map(({ chunkIndex, pageStart, pageEnd, heading }) => {
+      const label = formatPageRanges([{ start: pageStart, end: pageEnd }]);
+      return `[${label}${heading ? ` – ${heading}` : ''}]\n${index.chunks[chunkIndex].content}`;
+    })
+    .join('\n\n');
+};
+
+/**
+ * Finds the chunks most relevant to a question. Embeddings are combined with BM25 when enabled;
+ * if they cannot be computed, ranking falls back to BM25 alone and the reason is reported.
+ * @param aiSettings The provider settings, used for embeddings
+ * @param index The retrieval index of the document
+ * @param query The question, possibly with earlier context
+ * @param settings How many chunks to retrieve and whether to use embeddings
+ * @param signal Cancels embedding requests
+ * @returns The top chunks in document order, their formatted content and how they were ranked
+ */
+export const retrieveChunks = async (
+  aiSettings: AIProviderSettings,
+  index: RetrievalIndex,
+  query: string,
+  settings: RetrievalSettings,
+  signal?: AbortSignal
+): Promise<RetrievalResult> => {
+  const bm25Scores = scoreBm25(index, query);
+  const maxBm25 = Math.max(0, ...bm25Scores);
+
+  let embeddingScores: number[] | null = null;
+  let embeddingError: string | undefined;
+  if (settings.useEmbeddings && index.chunks.length > 0) {
+    try {
+      const [chunkVectors, [queryVector]] = await Promise.all([
+        getChunkEmbeddings(aiSettings, index, signal),
+        embedTexts(aiSettings, [query], signal),
+      ]);
+      embeddingScores = chunkVectors.map(vector => cosineSimilarity(vector, queryVector));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('Embeddings are unavailable; ranking chunks with BM25 only:', error);
+      embeddingError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const ranked: RetrievedChunk[] = index.chunks.map((chunk, chunkIndex) => {
+    const bm25Score = bm25Scores[chunkIndex];
+    const normalizedBm25 = maxBm25 > 0 ? bm25Score / maxBm25 : 0;
+    const embeddingScore = embeddingScores?.[chunkIndex];
+    const score = embeddingScore === undefined
+      ? normalizedBm25
+      : (1 - EMBEDDING_WEIGHT) * normalizedBm25 + EMBEDDING_WEIGHT * Math.max(0, embeddingScore);
+    return {
+      chunkIndex,
+      pageStart: chunk.pageStart,
+      pageEnd: chunk.pageEnd,
+      ...(chunk.heading && { heading: chunk.heading }),
+      score,
+      bm25Score,
+      ...(embeddingScore !== undefined && { embeddingScore }),
+    };
+  });
+
+  // Unrelated chunks are left out, unless nothing is related (e.g. "summarize this"): then the first chunks are used
+  const hasMatches = ranked.some(chunk => chunk.score > 0);
+  const top = ranked
+    .filter(chunk => !hasMatches || chunk.score > 0)
+    .sort((a, b) => b.score - a.score || a.chunkIndex - b.chunkIndex)
+    .slice(0, settings.topK)
+    .sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+  return {
+    chunks: top,
+    content: formatRetrievedContent(index, top),
+    method: embeddingScores ? 'hybrid' : 'bm25',
+    ...(embeddingError && { embeddingError }),
+  };
+};
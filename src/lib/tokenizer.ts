@@ -0,0 +1,56 @@
+import { init, Tiktoken } from 'tiktoken/lite/init';
+import initTiktokenWasm from 'tiktoken/lite/tiktoken_bg.wasm?init';
+
+/**
+ * Shared token counter for chunk sizing and cost estimates.
+ * Uses tiktoken's cl100k_base encoding once it has loaded. Gemini and local models use their
+ * own tokenizers, so counts for them are close approximations rather than exact billing figures.
+ * Until the WASM module and the encoder ranks have been fetched, counting falls back to a
+ * characters-per-token heuristic, so callers that need accurate numbers should await
+ * `loadTokenizer()` first.
+ */
+
+const CHARS_PER_TOKEN_ESTIMATE = 4; // General heuristic for English text
+
+let encoder: Tiktoken | null = null;
+let loadPromise: Promise<boolean> | null = null;
+
+/**
+ * Loads the tokenizer. Safe to call repeatedly; later calls share the first load.
+ * @returns True if the real tokenizer is available, false if counts stay heuristic
+ */
+export const loadTokenizer = (): Promise<boolean> => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        await init(imports => initTiktokenWasm(imports));
+        // The encoder ranks are ~1 MB, so they are split into their own lazily loaded chunk
+        const { default: ranks } = await import('tiktoken/encoders/cl100k_base');
+        encoder = new Tiktoken(ranks.bpe_ranks, ranks.special_tokens, ranks.pat_str);
+        return true;
+      } catch (error) {
+        console.warn('Tokenizer could not be loaded; using character-based token estimates instead.', error);
+        return false;
+      }
+    })();
+  }
+  return loadPromise;
+};
+
+/**
+ * Whether counts currently come from the real tokenizer
+ * @returns True once `loadTokenizer()` has succeeded
+ */
+export const isTokenizerLoaded = (): boolean => encoder !== null;
+
+/**
+ * Counts the tokens in a text
+ * @param text The text to count
+ * @returns Token count (estimated from the length if the tokenizer is not loaded)
+ */
+export const countTokens = (text: string): number => {
+  if (!text) return 0;
+  if (!encoder) return Math.ceil(text.length / CHARS_PER_TOKEN_ESTIMATE);
+  // encode_ordinary treats special-token strings in the document as plain text
+  return encoder.encode_ordinary(text).length;
+};
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { AIProviderSettings, BudgetCheck, BudgetSettings, ModelPricing, SessionUsage, TokenEstimate } from '../types';
+import { AI_PROVIDERS } from './ai-providers/provider-registry';
+
+/**
+ * Token pricing and the per-session spending budget.
+ * Spending is tracked in session storage, so it resets when the browser tab is closed.
+ */
+
+const BUDGET_SETTINGS_STORAGE_KEY = 'mocksmart-budget';
+const SESSION_USAGE_STORAGE_KEY = 'mocksmart-session-usage';
+
+// List prices in USD per million tokens (standard tier, short prompts). Matched by model-name prefix.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+};
+
+const FREE_PRICING: ModelPricing = { inputPerMillion: 0, outputPerMillion: 0 };
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  enabled: false,
+  limitUSD: 1,
+  mode: 'warn',
+};
+
+const EMPTY_USAGE: SessionUsage = { requests: 0, inputTokens: 0, outputTokens: 0, costUSD: 0, unpricedRequests: 0 };
+
+const budgetSettingsSchema = z.object({
+  enabled: z.boolean(),
+  limitUSD: z.number().min(0),
+  mode: z.enum(['warn', 'block']),
+});
+
+/**
+ * Looks up the token pricing for the configured model
+ * @param settings The provider settings
+ * @returns Pricing, zero for local and mock providers, or null if the model is unknown
+ */
+export const getModelPricing = (settings: AIProviderSettings): ModelPricing | null => {
+  if (settings.provider === 'ollama' || settings.provider === 'mock') return FREE_PRICING;
+  const model = (settings.model || AI_PROVIDERS[settings.provider].defaultModel).replace(/^models\//, '');
+  // Longest prefix wins, so "gpt-4o-mini" is not priced as "gpt-4o"
+  const match = Object.keys(MODEL_PRICING)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : null;
+};
+
+/**
+ * Calculates the cost of a number of tokens
+ * @param pricing The model pricing, or null if unknown
+ * @param inputTokens Prompt tokens
+ * @param outputTokens Response tokens
+ * @returns Cost in USD, or null if the pricing is unknown
+ */
+export const calculateCost = (pricing: ModelPricing | null, inputTokens: number, outputTokens: number): number | null => {
+  if (!pricing) return null;
+  return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+};
+
+/**
+ * Formats a cost for display, keeping small amounts readable
+ * @param costUSD Cost in USD, or null if unknown
+ * @returns E.g. "$0.0042", "$1.25" or "unknown"
+ */
+export const formatCost = (costUSD: number | null): string => {
+  if (costUSD === null) return 'unknown';
+  if (costUSD === 0) return '$0.00';
+  return costUSD < 0.01 ? `$${costUSD.toFixed(4)}` : `$${costUSD.toFixed(2)}`;
+};
+
+/**
+ * Loads the budget settings from local storage
+ * @returns The saved settings, or the defaults
+ */
+export const loadBudgetSettings = (): BudgetSettings => {
+  try {
+    const raw = localStorage.getItem(BUDGET_SETTINGS_STORAGE_KEY);
+    const parsed = raw ? budgetSettingsSchema.safeParse(JSON.parse(raw)) : null;
+    return parsed?.success ? (parsed.data as BudgetSettings) : { ...DEFAULT_BUDGET_SETTINGS };
+  } catch (error) {
+    console.warn('Failed to load budget settings:', error);
+    return { ...DEFAULT_BUDGET_SETTINGS };
+  }
+};
+
+/**
+ * Saves the budget settings to local storage
+ * @param settings The settings to save
+ */
+export const saveBudgetSettings = (settings: BudgetSettings): void => {
+  localStorage.setItem(BUDGET_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Reads the usage recorded in this browser session
+ * @returns Request, token and cost totals
+ */
+export const getSessionUsage = (): SessionUsage => {
+  try {
+    const raw = sessionStorage.getItem(SESSION_USAGE_STORAGE_KEY);
+    return raw ? { ...EMPTY_USAGE, ...JSON.parse(raw) } : { ...EMPTY_USAGE };
+  } catch {
+    return { ...EMPTY_USAGE };
+  }
+};
+
+/**
+ * Adds a completed request to the session usage
+ * @param settings Provider settings of the request (for pricing)
+ * @param inputTokens Prompt tokens
+ * @param outputTokens Response tokens
+ */
+export const recordUsage = (settings: AIProviderSettings, inputTokens: number, outputTokens: number): void => {
+  const usage = getSessionUsage();
+  const cost = calculateCost(getModelPricing(settings), inputTokens, outputTokens);
+  const next: SessionUsage = {
+    requests: usage.requests + 1,
+    inputTokens: usage.inputTokens + inputTokens,
+    outputTokens: usage.outputTokens + outputTokens,
+    costUSD: usage.costUSD + (cost ?? 0),
+    unpricedRequests: usage.unpricedRequests + (cost === null ? 1 : 0),
+  };
+  try {
+    sessionStorage.setItem(SESSION_USAGE_STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn('Failed to record usage:', error);
+  }
+};
+
+/**
+ * Clears the usage recorded in this browser session
+ */
+export const resetSessionUsage = (): void => {
+  sessionStorage.removeItem(SESSION_USAGE_STORAGE_KEY);
+};
+
+/**
+ * Checks whether an estimated request would push the session over its budget
+ * @param estimate The pre-flight estimate
+ * @param settings Budget settings
+ * @returns 'ok', or 'warn'/'block' (per the budget mode) with the projected spend
+ */
+export const checkBudget = (estimate: TokenEstimate, settings: BudgetSettings = loadBudgetSettings()): BudgetCheck => {
+  if (!settings.enabled) return { status: 'disabled' };
+  if (estimate.costUSD === null) return { status: 'unknown_cost' };
+  const spentUSD = getSessionUsage().costUSD;
+  const projectedUSD = spentUSD + estimate.costUSD;
+  if (projectedUSD <= settings.limitUSD) return { status: 'ok' };
+  return { status: settings.mode, spentUSD, limitUSD: settings.limitUSD, projectedUSD };
+};
@@ -0,0 +1,47 @@
+/**
+ * Creates the error thrown when an operation is cancelled through an AbortSignal
+ * @returns A DOMException named "AbortError", matching what fetch throws
+ */
+export const createAbortError = (): DOMException => {
+  return new DOMException('The operation was cancelled.', 'AbortError');
+};
+
+/**
+ * Checks whether an error was caused by cancellation
+ * @param error The error to check
+ * @returns True for AbortErrors from fetch or createAbortError
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+};
+
+/**
+ * Throws an AbortError if the signal has already been aborted
+ * @param signal The signal to check
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * Waits for a delay that ends early with an AbortError when the signal is aborted
+ * @param ms Delay in milliseconds
+ * @param signal Optional cancellation signal
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { BlueprintCell, Difficulty, ExamBlueprint, QuestionType } from '@/types';
+
+const BLUEPRINT_STORAGE_KEY = 'mocksmart-blueprints';
+
+const blueprintCellSchema = z.object({
+  topic: z.string(),
+  difficulty: z.enum(['basic', 'intermediate', 'advanced']),
+  type: z.enum(['mcq', 'fillblank', 'truefalse']),
+  count: z.number().int().min(0),
+});
+
+const blueprintSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  cells: z.array(blueprintCellSchema),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+/**
+ * Creates a blueprint cell with sensible defaults
+ * @param topic The topic the cell draws questions from
+ * @returns A new blueprint cell
+ */
+export const createBlueprintCell = (topic = ''): BlueprintCell => ({
+  topic,
+  difficulty: 'intermediate',
+  type: 'mcq',
+  count: 2,
+});
+
+/**
+ * Creates an empty, unsaved blueprint
+ * @param name Display name of the blueprint
+ * @param cells Initial cells
+ * @returns A new blueprint
+ */
+export const createBlueprint = (name = 'Untitled blueprint', cells: BlueprintCell[] = []): ExamBlueprint => {
+  const now = Date.now();
+  return { id: `bp_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`, name, cells, createdAt: now, updatedAt: now };
+};
+
+/**
+ * Sums the question counts of a blueprint
+ * @param blueprint The blueprint to total
+ * @returns Total number of questions the blueprint asks for
+ */
+export const getBlueprintTotal = (blueprint: ExamBlueprint): number => {
+  return blueprint.cells.reduce((sum, cell) => sum + cell.count, 0);
+};
+
+/**
+ * Groups blueprint cells by topic and difficulty, summing the counts per question type
+ * @param blueprint The blueprint to group
+ * @returns One entry per topic/difficulty pair with non-zero counts
+ */
+export const groupBlueprintCells = (
+  blueprint: ExamBlueprint
+): { topic: string; difficulty: Difficulty; counts: Record<QuestionType, number> }[] => {
+  const groups = new Map<string, { topic: string; difficulty: Difficulty; counts: Record<QuestionType, number> }>();
+  for (const cell of blueprint.cells) {
+    if (cell.count <= 0) continue;
+    const topic = cell.topic.trim();
+    const key = `${topic.toLowerCase()}|${cell.difficulty}`;
+    const group = groups.get(key) ?? { topic, difficulty: cell.difficulty, counts: { mcq: 0, fillblank: 0, truefalse: 0 } };
+    group.counts[cell.type] += cell.count;
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+};
+
+/**
+ * Loads saved blueprints from local storage, discarding entries that fail validation
+ * @returns Saved blueprints, most recently updated first
+ */
+export const loadSavedBlueprints = (): ExamBlueprint[] => {
+  try {
+    const raw = localStorage.getItem(BLUEPRINT_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = z.array(z.unknown()).parse(JSON.parse(raw));
+    return parsed
+      .map(entry => blueprintSchema.safeParse(entry))
+      .filter(result => result.success)
+      .map(result => result.data as ExamBlueprint)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.warn('Failed to load saved blueprints:', error);
+    return [];
+  }
+};
+
+const writeBlueprints = (blueprints: ExamBlueprint[]): void => {
+  localStorage.setItem(BLUEPRINT_STORAGE_KEY, JSON.stringify(blueprints));
+};
+
+/**
+ * Saves a blueprint, replacing any saved blueprint with the same id
+ * @param blueprint The blueprint to save
+ * @returns The updated list of saved blueprints
+ */
+export const saveBlueprint = (blueprint: ExamBlueprint): ExamBlueprint[] => {
+  const saved = { ...blueprint, updatedAt: Date.now() };
+  const blueprints = [saved, ...loadSavedBlueprints().filter(b => b.id !== blueprint.id)];
+  writeBlueprints(blueprints);
+  return blueprints;
+};
+
+/**
+ * Deletes a saved blueprint
+ * @param id Id of the blueprint to delete
+ * @returns The updated list of saved blueprints
+ */
+export const deleteBlueprint = (id: string): ExamBlueprint[] => {
+  const blueprints = loadSavedBlueprints().filter(b => b.id !== id);
+  writeBlueprints(blueprints);
+  return blueprints;
+};
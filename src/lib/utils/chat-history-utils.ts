@@ -0,0 +1,63 @@
+import { ChatTurn } from '@/types';
+
+const MAX_SUMMARIZED_QUESTIONS = 10; // Older questions are left out of the summary entirely
+const MAX_SUMMARIZED_QUESTION_CHARS = 120;
+
+/**
+ * Normalizes a conversation into the alternating user/assistant exchanges that role-based chat APIs expect.
+ * Assistant turns without a question (such as a greeting) and questions that were never answered are dropped.
+ * @param turns The conversation, oldest first
+ * @returns Complete exchanges, starting with a user turn and ending with an assistant turn
+ */
+export const toChatExchanges = (turns: ChatTurn[]): ChatTurn[] => {
+  const exchanges: ChatTurn[] = [];
+  for (const turn of turns) {
+    const last = exchanges[exchanges.length - 1];
+    if (turn.role === 'user') {
+      if (last?.role === 'user') exchanges.pop(); // The earlier question got no answer
+      exchanges.push(turn);
+    } else if (last?.role === 'user') {
+      exchanges.push(turn);
+    }
+  }
+  if (exchanges[exchanges.length - 1]?.role === 'user') exchanges.pop();
+  return exchanges;
+};
+
+const shorten = (text: string): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_SUMMARIZED_QUESTION_CHARS ? `${singleLine.slice(0, MAX_SUMMARIZED_QUESTION_CHARS - 1)}…` : singleLine;
+};
+
+/**
+ * Fits a conversation into a token budget. The most recent exchanges are kept whole;
+ * older ones are replaced by a one-line summary of the questions the student asked.
+ * @param exchanges Earlier exchanges, oldest first, as returned by `toChatExchanges`
+ * @param maxTokens Token budget for the kept exchanges
+ * @param countTokens Counts the tokens of a text
+ * @returns The exchanges to send, and a summary of the dropped ones (null when nothing was dropped)
+ */
+export const fitChatHistory = (
+  exchanges: ChatTurn[],
+  maxTokens: number,
+  countTokens: (text: string) => number
+): { turns: ChatTurn[]; summary: string | null } => {
+  let start = exchanges.length;
+  let usedTokens = 0;
+  // Walk back one exchange (question and answer) at a time
+  while (start >= 2) {
+    const exchangeTokens = countTokens(exchanges[start - 2].content) + countTokens(exchanges[start - 1].content);
+    if (usedTokens + exchangeTokens > maxTokens) break;
+    usedTokens += exchangeTokens;
+    start -= 2;
+  }
+  if (start === 0) return { turns: exchanges, summary: null };
+
+  const droppedQuestions = exchanges.slice(0, start).filter(turn => turn.role === 'user').map(turn => `"${shorten(turn.content)}"`);
+  const omitted = droppedQuestions.length - MAX_SUMMARIZED_QUESTIONS;
+  const listed = droppedQuestions.slice(-MAX_SUMMARIZED_QUESTIONS).join('; ');
+  return {
+    turns: exchanges.slice(start),
+    summary: `Earlier in this conversation the student asked: ${listed}${omitted > 0 ? `, after ${omitted} earlier question(s)` : ''}.`,
+  };
+};
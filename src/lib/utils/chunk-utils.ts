@@ -1,8 +1,5 @@
 import { EnhancedPDFChunk } from '../../types';
-
-export const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
-};
+import { countTokens } from '../tokenizer';
 
 /**
  * Chunk text into segments, mapping each chunk to real PDF page numbers.
@@ -36,7 +33,7 @@ export const chunkText = (
     const paragraph = paragraphs[i].trim();
     const potentialChunk = currentChunk + (currentChunk ? '\n\n' : '') + paragraph;
 
-    if (estimateTokens(potentialChunk) > maxTokens && currentChunk) {
+    if (countTokens(potentialChunk) > maxTokens && currentChunk) {
       const startPage = paragraphPageMap[chunkStart];
       const endPage = paragraphPageMap[i - 1];
       if (currentChunk.trim().length > 0) {
@@ -44,7 +41,7 @@ export const chunkText = (
           content: currentChunk,
           pageStart: startPage,
           pageEnd: endPage,
-          tokenCount: estimateTokens(currentChunk),
+          tokenCount: countTokens(currentChunk),
           extractionMethod: 'digital'
         });
       }
@@ -62,7 +59,7 @@ export const chunkText = (
       content: currentChunk,
       pageStart: startPage,
       pageEnd: endPage,
-      tokenCount: estimateTokens(currentChunk),
+      tokenCount: countTokens(currentChunk),
       extractionMethod: 'digital'
     });
   }
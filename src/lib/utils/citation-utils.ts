@@ -0,0 +1,57 @@
+import { AnswerSegment, ChatCitation, RetrievedChunk } from '@/types';
+
+// [p. 14], [pp. 12–13], [p. 14, 16], [pages 12-13] and the like
+const CITATION_PATTERN = /\[(?:pp?\.?|pages?)\s*(\d+(?:\s*[–-]\s*\d+)?(?:\s*,\s*\d+(?:\s*[–-]\s*\d+)?)*)\]/gi;
+
+const parsePageList = (pages: string): { start: number; end: number }[] => {
+  return pages.split(',').map(part => {
+    const [start, end = start] = part.split(/[–-]/).map(page => parseInt(page.trim(), 10));
+    return { start: Math.min(start, end), end: Math.max(start, end) };
+  });
+};
+
+// A citation is valid only if every page it names lies within one of the provided chunks.
+// Ranges are checked against the chunks' page intervals, so a made-up "[pp. 1–999999]" costs no more than "[p. 1]".
+const resolveCitation = (label: string, pages: string, provided: RetrievedChunk[]): ChatCitation => {
+  const ranges = parsePageList(pages);
+  const chunkIndices: number[] = [];
+  let valid = ranges.length > 0;
+  for (const range of ranges) {
+    const overlapping = provided
+      .filter(chunk => chunk.pageStart <= range.end && chunk.pageEnd >= range.start)
+      .sort((a, b) => a.pageStart - b.pageStart);
+    let firstUncovered = range.start;
+    for (const chunk of overlapping) {
+      if (chunk.pageStart <= firstUncovered) firstUncovered = Math.max(firstUncovered, chunk.pageEnd + 1);
+      if (!chunkIndices.includes(chunk.chunkIndex)) chunkIndices.push(chunk.chunkIndex);
+    }
+    if (firstUncovered <= range.end) valid = false;
+  }
+  return {
+    label,
+    pageStart: Math.min(...ranges.map(range => range.start)),
+    pageEnd: Math.max(...ranges.map(range => range.end)),
+    chunkIndices,
+    valid,
+  };
+};
+
+/**
+ * Splits an answer into text and page citations, validating each citation against the chunks
+ * the model was given. Citations of pages outside those chunks are marked invalid.
+ * @param answer The answer text
+ * @param provided The chunks sent with the question
+ * @returns The answer as alternating text and citation segments, in order
+ */
+export const parseCitedAnswer = (answer: string, provided: RetrievedChunk[]): AnswerSegment[] => {
+  const segments: AnswerSegment[] = [];
+  let lastIndex = 0;
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ type: 'text', text: answer.slice(lastIndex, index) });
+    segments.push({ type: 'citation', citation: resolveCitation(match[0], match[1], provided) });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < answer.length) segments.push({ type: 'text', text: answer.slice(lastIndex) });
+  return segments;
+};
@@ -1,4 +1,48 @@
-import { ErrorType, UserFacingError } from '@/types';
+import { AIErrorCode, ErrorType, UserFacingError } from '@/types';
+import { AIProviderError } from '@/lib/ai-providers/ai-error';
+import { PDFErrorCode, PDFProcessingError } from '@/lib/pdf-error';
+import { isAbortError } from './abort-utils';
+
+const AI_ERROR_TYPES: Record<AIErrorCode, ErrorType> = {
+  missing_key: 'API_KEY_REQUIRED',
+  invalid_key: 'INVALID_API_KEY',
+  quota_exceeded: 'QUOTA_EXCEEDED',
+  rate_limited: 'RATE_LIMITED',
+  safety_block: 'SAFETY_BLOCKED',
+  bad_request: 'INVALID_AI_REQUEST',
+  model_not_found: 'MODEL_NOT_FOUND',
+  server_error: 'AI_SERVICE_UNAVAILABLE',
+  network: 'NETWORK_ERROR',
+  malformed_response: 'MALFORMED_RESPONSE',
+  parse_failure: 'PARSE_FAILURE',
+  unknown: 'UNKNOWN_ERROR',
+};
+
+const PDF_ERROR_TYPES: Record<PDFErrorCode, ErrorType> = {
+  INVALID_FILE_TYPE: 'INVALID_FILE_TYPE',
+  FILE_TOO_LARGE: 'FILE_TOO_LARGE',
+  OCR_INIT_FAILED_NO_TEXT: 'OCR_INITIALIZATION',
+  NO_TEXT_EXTRACTED: 'NO_TEXT_EXTRACTED',
+  NO_TEXT_EXTRACTED_OCR_EMPTY: 'NO_TEXT_EXTRACTED',
+  PROCESSING_FAILED: 'PDF_PROCESSING_FAILED',
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR',
+};
+
+const RETRYABLE_ERROR_TYPES = new Set<ErrorType>([
+  'RATE_LIMITED',
+  'AI_SERVICE_UNAVAILABLE',
+  'NETWORK_ERROR',
+  'MALFORMED_RESPONSE',
+  'PARSE_FAILURE',
+  'PDF_PROCESSING_FAILED',
+]);
+
+/**
+ * Maps an AI provider error code to the application error type
+ * @param code The provider error code
+ * @returns ErrorType classification
+ */
+export const getAIErrorType = (code: AIErrorCode): ErrorType => AI_ERROR_TYPES[code] ?? 'UNKNOWN_ERROR';
 
 /**
  * Classifies an error into a standardized type
@@ -6,16 +50,42 @@ import { ErrorType, UserFacingError } from '@/types';
  * @returns ErrorType classification
  */
 export const determineErrorType = (error: unknown): ErrorType => {
-  if (error instanceof Error) {
-    if (error.message.includes('OCR')) return 'OCR_INITIALIZATION';
-    if (error.message.includes('text could not be extracted')) return 'NO_TEXT_EXTRACTED';
-    if (error.message.includes('File too large')) return 'FILE_TOO_LARGE';
-    if (error.message.includes('Invalid file type')) return 'INVALID_FILE_TYPE';
-    if (error.message.includes('API key')) return 'API_KEY_REQUIRED';
-  }
+  if (isAbortError(error)) return 'CANCELLED';
+  if (error instanceof AIProviderError) return getAIErrorType(error.code);
+  if (error instanceof PDFProcessingError) return PDF_ERROR_TYPES[error.code] ?? 'UNKNOWN_ERROR';
   return 'UNKNOWN_ERROR';
 };
 
+/**
+ * Generates a short title for toasts and error banners
+ * @param errorType The classified error type
+ * @returns User-facing error title
+ */
+export const generateErrorTitle = (errorType: ErrorType): string => {
+  const titles: Record<ErrorType, string> = {
+    'OCR_INITIALIZATION': 'OCR unavailable',
+    'NO_TEXT_EXTRACTED': 'No text found',
+    'FILE_TOO_LARGE': 'File too large',
+    'INVALID_FILE_TYPE': 'Invalid file type',
+    'PDF_PROCESSING_FAILED': 'Processing failed',
+    'API_KEY_REQUIRED': 'API key missing',
+    'INVALID_API_KEY': 'Invalid API key',
+    'QUOTA_EXCEEDED': 'Quota exceeded',
+    'RATE_LIMITED': 'AI service busy',
+    'SAFETY_BLOCKED': 'Blocked by safety filters',
+    'INVALID_AI_REQUEST': 'Request rejected',
+    'MODEL_NOT_FOUND': 'Model not available',
+    'AI_SERVICE_UNAVAILABLE': 'AI service unavailable',
+    'NETWORK_ERROR': 'Connection failed',
+    'MALFORMED_RESPONSE': 'Unexpected AI response',
+    'PARSE_FAILURE': 'Could not read AI response',
+    'CANCELLED': 'Cancelled',
+    'UNKNOWN_ERROR': 'Something went wrong',
+  };
+
+  return titles[errorType];
+};
+
 /**
  * Generates a user-friendly error message
  * @param errorType The classified error type
@@ -27,10 +97,22 @@ export const generateUserMessage = (errorType: ErrorType): string => {
     'NO_TEXT_EXTRACTED': 'No text could be extracted from this PDF.',
     'FILE_TOO_LARGE': 'The file is too large. Please upload a PDF smaller than 50MB.',
     'INVALID_FILE_TYPE': 'Invalid file type. Please upload a PDF file.',
-    'API_KEY_REQUIRED': 'A valid Gemini API key is required.',
+    'PDF_PROCESSING_FAILED': 'The PDF could not be processed. Please try again.',
+    'API_KEY_REQUIRED': 'An API key is required for the selected AI provider. Please add one in Settings.',
+    'INVALID_API_KEY': 'The API key was rejected. Please check it in Settings.',
+    'QUOTA_EXCEEDED': 'The quota or billing limit for your API key has been reached. Please check your provider account.',
+    'RATE_LIMITED': 'The AI service is busy or rate limits have been exceeded. Please try again in a few moments.',
+    'SAFETY_BLOCKED': "The request was blocked by the AI's safety filters. Try rephrasing it or using different material.",
+    'INVALID_AI_REQUEST': 'The AI service rejected the request. Please check the provider settings.',
+    'MODEL_NOT_FOUND': 'The selected model is not available. Please choose another model in Settings.',
+    'AI_SERVICE_UNAVAILABLE': 'The AI service encountered a temporary issue. Please try again shortly.',
+    'NETWORK_ERROR': 'Could not reach the AI service. Please check your connection and the provider settings.',
+    'MALFORMED_RESPONSE': 'The AI service returned an unexpected response. Please try again.',
+    'PARSE_FAILURE': 'The AI response could not be turned into valid questions. Please try again.',
+    'CANCELLED': 'The operation was cancelled.',
     'UNKNOWN_ERROR': 'An unexpected error occurred. Please try again.'
   };
-  
+
   return messages[errorType];
 };
 
@@ -43,7 +125,7 @@ export const generateUserMessage = (errorType: ErrorType): string => {
 export const handleError = (error: unknown, context?: Record<string, any>): UserFacingError => {
   const errorType = determineErrorType(error);
   const userMessage = generateUserMessage(errorType);
-  
+
   // Log error to monitoring service (add actual implementation)
   console.error('Application Error:', {
     type: errorType,
@@ -52,11 +134,14 @@ export const handleError = (error: unknown, context?: Record<string, any>): User
     context,
     timestamp: new Date().toISOString()
   });
-  
+
   return {
     message: userMessage,
+    title: generateErrorTitle(errorType),
     type: errorType,
     timestamp: Date.now(),
+    retryable: error instanceof AIProviderError ? error.retryable : RETRYABLE_ERROR_TYPES.has(errorType),
+    provider: error instanceof AIProviderError ? error.provider : undefined,
     details: error instanceof Error ? error.message : 'Unknown error details'
   };
 };
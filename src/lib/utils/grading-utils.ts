@@ -0,0 +1,192 @@
+import { AnswerStatus, ExamAnswer, ExamScore, GeminiQuestion } from '@/types';
+
+/**
+ * Converts an option letter (A, B, C, ...) into a zero-based index
+ * @param letter The option letter
+ * @returns Option index, or -1 if the letter is not valid
+ */
+export const optionLetterToIndex = (letter: string): number => {
+  const code = letter.trim().toUpperCase().charCodeAt(0);
+  return code >= 65 && code <= 90 ? code - 65 : -1;
+};
+
+/**
+ * Converts a zero-based option index into its letter (0 -> A)
+ * @param index The option index
+ * @returns Option letter
+ */
+export const optionIndexToLetter = (index: number): string => String.fromCharCode(65 + index);
+
+/**
+ * Normalizes free text for lenient comparison: case, surrounding punctuation and whitespace are ignored
+ * @param text The text to normalize
+ * @returns Normalized text
+ */
+export const normalizeAnswerText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'`*.,;:!?()[\]]+|[\s"'`*.,;:!?()[\]]+$/g, '')
+    .trim();
+};
+
+/**
+ * Resolves the correct option index of an MCQ from a raw answer.
+ * Accepts "B) Option text", "B.", "B", "Option B" or the option text itself.
+ * @param answer The raw answer produced by the model or parser
+ * @param options The question options
+ * @returns Option index, or -1 if the answer cannot be matched to an option
+ */
+export const resolveOptionIndex = (answer: string | boolean, options: string[]): number => {
+  if (typeof answer !== 'string' || options.length === 0) return -1;
+  const trimmed = answer.trim();
+
+  const normalized = normalizeAnswerText(trimmed);
+  if (!normalized) return -1;
+  const textIndex = options.findIndex(option => normalizeAnswerText(option) === normalized);
+  if (textIndex >= 0) return textIndex;
+
+  const letterMatch = trimmed.match(/^(?:option\s+)?\(?([A-Z])(?:\s*[).:\]-]|\s*$)/i);
+  if (letterMatch) {
+    const index = optionLetterToIndex(letterMatch[1]);
+    if (index >= 0 && index < options.length) return index;
+  }
+  return -1;
+};
+
+/**
+ * Parses a raw true/false answer
+ * @param answer The raw answer
+ * @returns The boolean value, or null if the answer is not a recognizable true/false value
+ */
+export const parseBooleanAnswer = (answer: ExamAnswer): boolean | null => {
+  if (typeof answer === 'boolean') return answer;
+  const normalized = normalizeAnswerText(String(answer));
+  if (normalized === 'true' || normalized === 't') return true;
+  if (normalized === 'false' || normalized === 'f') return false;
+  return null;
+};
+
+/**
+ * Normalizes a question into the canonical answer model:
+ * MCQs carry `correctOptionIndex`, T/F questions carry a boolean answer
+ * and fill-blank answers are trimmed strings. A T/F answer that is not a true/false value
+ * is left as it is rather than guessed; such questions are never graded as correct.
+ * @param question The question to normalize
+ * @returns The normalized question
+ */
+export const normalizeQuestion = (question: GeminiQuestion): GeminiQuestion => {
+  switch (question.type) {
+    case 'mcq': {
+      const options = question.options ?? [];
+      const hasValidIndex = typeof question.correctOptionIndex === 'number'
+        && question.correctOptionIndex >= 0
+        && question.correctOptionIndex < options.length;
+      const correctOptionIndex = hasValidIndex
+        ? question.correctOptionIndex
+        : resolveOptionIndex(question.answer, options);
+      return {
+        ...question,
+        options,
+        correctOptionIndex: correctOptionIndex >= 0 ? correctOptionIndex : undefined,
+      };
+    }
+    case 'truefalse': {
+      const answer = parseBooleanAnswer(question.answer);
+      return answer === null ? question : { ...question, answer };
+    }
+    case 'fillblank':
+    default:
+      return { ...question, answer: String(question.answer).trim() };
+  }
+};
+
+/**
+ * Checks whether a response is correct for a question
+ * @param question The question being graded
+ * @param response The student's response (option index for MCQs)
+ * @returns True if the response is correct
+ */
+export const isAnswerCorrect = (question: GeminiQuestion, response: ExamAnswer | undefined): boolean => {
+  if (response === undefined || response === '') return false;
+  const normalized = normalizeQuestion(question);
+
+  switch (normalized.type) {
+    case 'mcq': {
+      if (normalized.correctOptionIndex === undefined) return false;
+      const responseIndex = typeof response === 'number'
+        ? response
+        : resolveOptionIndex(String(response), normalized.options ?? []);
+      return responseIndex === normalized.correctOptionIndex;
+    }
+    case 'truefalse':
+      return typeof normalized.answer === 'boolean' && parseBooleanAnswer(response) === normalized.answer;
+    case 'fillblank':
+    default: {
+      // Models occasionally list alternatives such as "DNA / deoxyribonucleic acid". Only explicit separators
+      // count: "or" is often part of the answer itself ("more or less"), and splitting there accepts a fragment.
+      const answerText = String(normalized.answer);
+      const accepted = [answerText, ...answerText.split(/\s*[/;]\s*/)].map(normalizeAnswerText);
+      return accepted.includes(normalizeAnswerText(String(response)));
+    }
+  }
+};
+
+/**
+ * Determines the review status of a question
+ * @param question The question being graded
+ * @param response The student's response
+ * @returns Answer status for display
+ */
+export const getAnswerStatus = (question: GeminiQuestion, response: ExamAnswer | undefined): AnswerStatus => {
+  if (response === undefined || response === '') return 'unanswered';
+  return isAnswerCorrect(question, response) ? 'correct' : 'incorrect';
+};
+
+/**
+ * Scores a completed exam
+ * @param questions The exam questions
+ * @param answers Responses keyed by question id
+ * @returns Score summary
+ */
+export const calculateScore = (
+  questions: GeminiQuestion[],
+  answers: Record<string, ExamAnswer>
+): ExamScore => {
+  const correct = questions.filter(q => isAnswerCorrect(q, answers[q.id])).length;
+  const total = questions.length;
+  return { correct, total, percentage: total > 0 ? Math.round((correct / total) * 100) : 0 };
+};
+
+/**
+ * Formats a response for display in the review screen
+ * @param question The question being reviewed
+ * @param response The student's response
+ * @returns Display text
+ */
+export const formatAnswer = (question: GeminiQuestion, response: ExamAnswer | undefined): string => {
+  if (response === undefined || response === '') return 'Not answered';
+  if (question.type === 'mcq' && typeof response === 'number') {
+    return `${optionIndexToLetter(response)}) ${question.options?.[response] ?? ''}`.trim();
+  }
+  if (question.type === 'truefalse') {
+    const value = parseBooleanAnswer(response);
+    return value === null ? String(response) : value ? 'True' : 'False';
+  }
+  return String(response);
+};
+
+/**
+ * Formats the correct answer of a question for display
+ * @param question The question being reviewed
+ * @returns Display text
+ */
+export const formatCorrectAnswer = (question: GeminiQuestion): string => {
+  const normalized = normalizeQuestion(question);
+  if (normalized.type === 'mcq') {
+    return normalized.correctOptionIndex !== undefined
+      ? formatAnswer(normalized, normalized.correctOptionIndex)
+      : String(question.answer);
+  }
+  return formatAnswer(normalized, normalized.answer);
+};
@@ -0,0 +1,114 @@
+import { EnhancedPDFChunk, GeminiQuestion, QuestionGrounding } from '@/types';
+import { chunkMatchesTopic, extractTopicKeywords } from './topic-utils';
+
+const MIN_QUOTE_KEYWORD_COVERAGE = 0.8; // Share of a quote's keywords a chunk must contain when it is not quoted verbatim
+
+/**
+ * Normalizes text for quote matching: case, typographic quotes, ellipses and whitespace are ignored
+ * @param text The text to normalize
+ * @returns Normalized text
+ */
+export const normalizeForMatching = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/…|\.{3}/g, ' ')
+    .replace(/-\s*\n\s*/g, '') // Words hyphenated across PDF lines
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"']+|[\s"']+$/g, '')
+    .trim();
+};
+
+/**
+ * Finds the chunk a quote was taken from. Verbatim matches win; otherwise the chunk
+ * containing most of the quote's keywords is used, if it contains enough of them.
+ * @param quote The quoted passage
+ * @param chunks The document chunks
+ * @returns Index of the chunk, or -1 if the quote could not be found
+ */
+export const findQuoteChunk = (quote: string, chunks: EnhancedPDFChunk[]): number => {
+  const normalizedQuote = normalizeForMatching(quote);
+  if (!normalizedQuote) return -1;
+  const normalizedChunks = chunks.map(chunk => normalizeForMatching(chunk.content));
+
+  const exact = normalizedChunks.findIndex(content => content.includes(normalizedQuote));
+  if (exact >= 0) return exact;
+
+  const keywords = extractTopicKeywords(quote);
+  if (keywords.length === 0) return -1;
+  let best = -1;
+  let bestCoverage = 0;
+  normalizedChunks.forEach((content, index) => {
+    const coverage = keywords.filter(keyword => content.includes(keyword)).length / keywords.length;
+    if (coverage > bestCoverage) {
+      best = index;
+      bestCoverage = coverage;
+    }
+  });
+  return bestCoverage >= MIN_QUOTE_KEYWORD_COVERAGE ? best : -1;
+};
+
+/**
+ * Finds the chunk that shares the most keywords with a text, preferring chunks that cover a topic
+ * @param text The text to look for, e.g. a question with its answer and explanation
+ * @param chunks The document chunks
+ * @param topic Optional topic; when chunks cover it, only those are considered
+ * @returns Index of the best chunk, or -1 if no chunk shares a keyword
+ */
+export const findBestMatchingChunk = (text: string, chunks: EnhancedPDFChunk[], topic?: string): number => {
+  const keywords = extractTopicKeywords(text);
+  const topicIndices = topic ? chunks.map((chunk, index) => (chunkMatchesTopic(topic, chunk) ? index : -1)).filter(index => index >= 0) : [];
+  const candidates = topicIndices.length > 0 ? topicIndices : chunks.map((_, index) => index);
+
+  let best = -1;
+  let bestScore = 0;
+  for (const index of candidates) {
+    const lowerContent = chunks[index].content.toLowerCase();
+    const score = keywords.filter(keyword => lowerContent.includes(keyword)).length;
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const toGrounding = (chunks: EnhancedPDFChunk[], chunkIndex: number, quote?: string): QuestionGrounding => ({
+  ...(quote && { quote }),
+  chunkIndex,
+  pageStart: chunks[chunkIndex].pageStart,
+  pageEnd: chunks[chunkIndex].pageEnd,
+});
+
+/**
+ * Links a question to the chunk and pages it was drawn from.
+ * The model's supporting quote is kept only if it can be found in the document;
+ * without one, the chunk is located from the question's own wording.
+ * @param question The question, possibly carrying a quote from the model
+ * @param chunks The document chunks
+ * @returns The question with its grounding resolved; unchanged when there are no chunks
+ */
+export const groundQuestion = (question: GeminiQuestion, chunks: EnhancedPDFChunk[]): GeminiQuestion => {
+  if (chunks.length === 0) return question;
+
+  const quote = question.grounding?.quote;
+  const quoteChunk = quote ? findQuoteChunk(quote, chunks) : -1;
+  if (quoteChunk >= 0) return { ...question, grounding: toGrounding(chunks, quoteChunk, quote) };
+  if (quote) console.warn(`Supporting quote for ${question.id} was not found in the document; locating the source from the question instead.`);
+
+  const bestChunk = findBestMatchingChunk(`${question.question} ${question.answer} ${question.explanation}`, chunks, question.topic);
+  const { grounding: _unverified, ...ungrounded } = question;
+  return bestChunk >= 0 ? { ...ungrounded, grounding: toGrounding(chunks, bestChunk) } : ungrounded;
+};
+
+/**
+ * Formats a question's pages for display, e.g. "page 12" or "pages 12–13"
+ * @param grounding The question's grounding
+ * @returns Display text, or an empty string when the pages are unknown
+ */
+export const formatGroundingPages = (grounding?: QuestionGrounding): string => {
+  if (grounding?.pageStart === undefined) return '';
+  const { pageStart, pageEnd = pageStart } = grounding;
+  return pageStart === pageEnd ? `page ${pageStart}` : `pages ${pageStart}–${pageEnd}`;
+};
@@ -22,3 +22,20 @@ export const extractHeadings = (text: string): string[] => {
   }
   return [...new Set(headings)].slice(0, 30);
 };
+
+/**
+ * Assign each chunk the first extracted heading that appears in its content.
+ * @param chunks The chunks to label.
+ * @param headings Headings extracted from the full text.
+ * @returns The chunks, with `heading` set where one was found.
+ */
+export const assignChunkHeadings = <T extends { content: string; heading?: string }>(
+  chunks: T[],
+  headings: string[]
+): T[] => {
+  return chunks.map(chunk => {
+    if (chunk.heading) return chunk;
+    const heading = headings.find(h => chunk.content.includes(h));
+    return heading ? { ...chunk, heading } : chunk;
+  });
+};
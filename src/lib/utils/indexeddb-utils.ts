@@ -0,0 +1,66 @@
+/**
+ * Shared plumbing for the IndexedDB-backed stores (response cache, question bank)
+ */
+
+export interface ObjectStoreConfig {
+  dbName: string;
+  version: number;
+  storeName: string;
+  upgrade: (db: IDBDatabase) => void; // Creates the store and its indexes
+}
+
+export type StoreRunner = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>) => Promise<T>;
+
+/**
+ * Wraps an IDB request in a promise
+ * @param request The request
+ * @returns Resolves with the request's result
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Creates a helper that runs a callback in a transaction on one object store.
+ * The database is opened lazily on first use; the helper rejects when IndexedDB is unavailable.
+ * @param config Database name, version, store name and upgrade callback
+ * @returns A function running a callback in a transaction and resolving once the transaction completes
+ */
+export const createStoreRunner = (config: ObjectStoreConfig): StoreRunner => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser.'));
+          return;
+        }
+        const request = indexedDB.open(config.dbName, config.version);
+        request.onupgradeneeded = () => config.upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      dbPromise.catch(() => {
+        dbPromise = null; // Allow a later retry, e.g. after the user leaves private browsing
+      });
+    }
+    return dbPromise;
+  };
+
+  return async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(config.storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await run(transaction.objectStore(config.storeName));
+    await done;
+    return result;
+  };
+};
@@ -1,11 +1,4 @@
-/**
- * Helper function to estimate token count
- * @param text The text to estimate tokens for
- * @returns Estimated token count
- */
-export const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
-};
+import { countTokens } from '../tokenizer';
 
 /**
  * Helper function to split content into chunks based on max tokens
@@ -15,7 +8,7 @@ export const estimateTokens = (text: string): number => {
  * @returns Array of text chunks
  */
 export const splitContentIntoChunks = (text: string, maxTokens: number): string[] => {
-  const estimatedTotalTokens = estimateTokens(text);
+  const estimatedTotalTokens = countTokens(text);
   if (estimatedTotalTokens <= maxTokens) {
     return [text];
   }
@@ -27,7 +20,7 @@ export const splitContentIntoChunks = (text: string, maxTokens: number): string[
   let currentChunkTokens = 0;
 
   for (const paragraph of paragraphs) {
-    const paragraphTokens = estimateTokens(paragraph);
+    const paragraphTokens = countTokens(paragraph);
     if (currentChunkTokens + paragraphTokens > maxTokens && currentChunkTokens > 0) {
       chunks.push(currentChunk.trim());
       currentChunk = paragraph;
@@ -0,0 +1,109 @@
+import { GeminiQuestion, ReviewQuestion } from '@/types';
+import { optionIndexToLetter, parseBooleanAnswer } from './grading-utils';
+import { createFailedVerification } from '../gemini-questions/verification';
+
+const MIN_MCQ_OPTIONS = 2;
+
+/**
+ * Lists what keeps a question from being usable in an exam
+ * @param question The question to check
+ * @returns Human-readable problems; empty when the question is usable
+ */
+export const getQuestionIssues = (question: GeminiQuestion): string[] => {
+  const issues: string[] = [];
+  if (!question.question.trim()) issues.push('The question text is empty.');
+
+  switch (question.type) {
+    case 'mcq': {
+      const options = question.options ?? [];
+      if (options.length < MIN_MCQ_OPTIONS) issues.push(`A multiple choice question needs at least ${MIN_MCQ_OPTIONS} options.`);
+      if (options.some(option => !option.trim())) issues.push('Some options are empty.');
+      const index = question.correctOptionIndex;
+      if (typeof index !== 'number' || index < 0 || index >= options.length) issues.push('No correct option is selected.');
+      break;
+    }
+    case 'fillblank':
+      if (!String(question.answer).trim()) issues.push('The answer is empty.');
+      break;
+    case 'truefalse':
+      if (parseBooleanAnswer(question.answer) === null) issues.push('The answer must be True or False.');
+      break;
+    default:
+      break;
+  }
+  return issues;
+};
+
+/**
+ * Wraps a generated question for review. Questions flagged by answer verification start out
+ * flagged, and like questions with problems, unapproved.
+ * @param question The generated question
+ * @returns The review entry
+ */
+export const createReviewQuestion = (question: GeminiQuestion): ReviewQuestion => {
+  const flagged = question.verification?.status === 'flagged';
+  return { question, approved: !flagged && getQuestionIssues(question).length === 0, flagged };
+};
+
+/**
+ * Wraps generated questions for review
+ * @param questions The generated questions
+ * @returns One review entry per question, in the same order
+ */
+export const createReviewQuestions = (questions: GeminiQuestion[]): ReviewQuestion[] => {
+  return questions.map(createReviewQuestion);
+};
+
+/**
+ * Marks questions that were handed to review before answer verification reached them,
+ * so the review shows them as not verified instead of looking like unchecked-but-fine questions
+ * @param questions The questions to review
+ * @returns The questions, with a failed verification on those that have none
+ */
+export const markUnverified = (questions: GeminiQuestion[]): GeminiQuestion[] => {
+  return questions.map(question => (
+    question.verification ? question : { ...question, verification: createFailedVerification('Generation was stopped before this answer was verified.') }
+  ));
+};
+
+/**
+ * Adds newly reported questions to a list, replacing earlier versions that have the same id
+ * @param questions The questions so far
+ * @param reported The newly reported questions
+ * @returns A new list; replaced questions keep their position and new ones are appended
+ */
+export const mergeQuestionsById = (questions: GeminiQuestion[], reported: GeminiQuestion[]): GeminiQuestion[] => {
+  const reportedById = new Map(reported.map(question => [question.id, question]));
+  const known = new Set(questions.map(question => question.id));
+  return [
+    ...questions.map(question => reportedById.get(question.id) ?? question),
+    ...reported.filter(question => !known.has(question.id)),
+  ];
+};
+
+/**
+ * Keeps an MCQ's answer text in line with its options and correct option
+ * @param question The edited question
+ * @returns The question with its answer rebuilt; other types are returned unchanged
+ */
+export const syncMcqAnswer = (question: GeminiQuestion): GeminiQuestion => {
+  if (question.type !== 'mcq') return question;
+  const index = question.correctOptionIndex;
+  const option = typeof index === 'number' ? question.options?.[index] : undefined;
+  return { ...question, answer: option === undefined ? '' : `${optionIndexToLetter(index)}) ${option}` };
+};
+
+/**
+ * Moves an item to another position
+ * @param items The list
+ * @param from Current index of the item
+ * @param to Target index
+ * @returns A new list; the original is returned when either index is out of range
+ */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from < 0 || from >= items.length || to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
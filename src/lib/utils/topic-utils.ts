@@ -0,0 +1,151 @@
+import { EnhancedPDFChunk } from '@/types';
+
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+export interface TopicChunkMapping {
+  topic: string;
+  chunkIndices: number[];
+  pageRanges: PageRange[];
+}
+
+export interface TopicContentSelection {
+  content: string;
+  chunkIndices: number[];
+  matchedTopics: string[];
+  unmatchedTopics: string[];
+  usedFallback: boolean; // True when no chunk matched and the full document was used instead
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'these', 'those',
+  'are', 'was', 'were', 'its', 'our', 'your', 'their', 'about', 'between', 'over', 'under',
+  'chapter', 'section', 'part', 'unit', 'introduction', 'overview',
+]);
+
+const MIN_KEYWORD_COVERAGE = 0.75; // Share of topic keywords a chunk must mention to match
+
+/**
+ * Split text into its significant lowercase words, keeping repeats.
+ * @param text The text.
+ * @returns Words in order, without stop words and numbering.
+ */
+export const tokenizeKeywords = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+};
+
+/**
+ * Extract the significant lowercase keywords of a topic.
+ * @param topic The topic text.
+ * @returns Unique keywords, without stop words and numbering.
+ */
+export const extractTopicKeywords = (topic: string): string[] => {
+  return [...new Set(tokenizeKeywords(topic))];
+};
+
+/**
+ * Decide whether a chunk is about a topic, using its heading, the topic phrase and keyword coverage.
+ * @param topic The topic text.
+ * @param chunk The chunk to test.
+ * @returns True if the chunk relates to the topic.
+ */
+export const chunkMatchesTopic = (topic: string, chunk: EnhancedPDFChunk): boolean => {
+  const normalizedTopic = topic.trim().toLowerCase();
+  if (!normalizedTopic) return false;
+
+  if (chunk.heading && chunk.heading.trim().toLowerCase() === normalizedTopic) return true;
+
+  const content = chunk.content.toLowerCase();
+  if (content.includes(normalizedTopic)) return true;
+
+  const keywords = extractTopicKeywords(topic);
+  if (keywords.length === 0) return false;
+  const found = keywords.filter(keyword => new RegExp(`\\b${keyword}`).test(content)).length;
+  return found / keywords.length >= MIN_KEYWORD_COVERAGE;
+};
+
+/**
+ * Merge the page spans of the given chunks into sorted, non-overlapping ranges.
+ * @param chunks All document chunks.
+ * @param chunkIndices Indices of the chunks to cover.
+ * @returns Merged page ranges.
+ */
+export const mergePageRanges = (chunks: EnhancedPDFChunk[], chunkIndices: number[]): PageRange[] => {
+  const ranges = chunkIndices
+    .map(index => ({ start: chunks[index].pageStart, end: chunks[index].pageEnd }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: PageRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Format page ranges for display, e.g. "pp. 3–5, 9".
+ * @param ranges The page ranges.
+ * @returns Display text, or an empty string if there are no ranges.
+ */
+export const formatPageRanges = (ranges: PageRange[]): string => {
+  if (ranges.length === 0) return '';
+  const parts = ranges.map(r => (r.start === r.end ? `${r.start}` : `${r.start}–${r.end}`));
+  const singlePage = ranges.length === 1 && ranges[0].start === ranges[0].end;
+  return `${singlePage ? 'p.' : 'pp.'} ${parts.join(', ')}`;
+};
+
+/**
+ * Map each topic to the chunks and pages that cover it.
+ * @param topics The topics to map.
+ * @param chunks The document chunks.
+ * @returns One mapping per topic, in input order.
+ */
+export const mapTopicsToChunks = (topics: string[], chunks: EnhancedPDFChunk[]): TopicChunkMapping[] => {
+  return topics.map(topic => {
+    const chunkIndices = chunks
+      .map((chunk, index) => (chunkMatchesTopic(topic, chunk) ? index : -1))
+      .filter(index => index >= 0);
+    return { topic, chunkIndices, pageRanges: mergePageRanges(chunks, chunkIndices) };
+  });
+};
+
+/**
+ * Build the generation content for the selected topics from the matching chunks.
+ * Falls back to the full text when no chunk matches any topic.
+ * @param selectedTopics Topics chosen by the user.
+ * @param chunks The document chunks.
+ * @param fullText The full document text, used as fallback.
+ * @returns The selected content and how it was chosen.
+ */
+export const selectContentForTopics = (
+  selectedTopics: string[],
+  chunks: EnhancedPDFChunk[],
+  fullText: string
+): TopicContentSelection => {
+  const mappings = mapTopicsToChunks(selectedTopics, chunks);
+  const chunkIndices = [...new Set(mappings.flatMap(m => m.chunkIndices))].sort((a, b) => a - b);
+  const matchedTopics = mappings.filter(m => m.chunkIndices.length > 0).map(m => m.topic);
+  const unmatchedTopics = mappings.filter(m => m.chunkIndices.length === 0).map(m => m.topic);
+
+  if (chunkIndices.length === 0) {
+    return { content: fullText, chunkIndices: [], matchedTopics, unmatchedTopics, usedFallback: true };
+  }
+
+  return {
+    content: chunkIndices.map(index => chunks[index].content).join('\n\n'),
+    chunkIndices,
+    matchedTopics,
+    unmatchedTopics,
+    usedFallback: false,
+  };
+};
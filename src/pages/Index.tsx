@@ -1,11 +1,9 @@
 
-import { useState, useEffect } from "react"; // Added useEffect
+import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload, BookOpen, Clock, Timer, ArrowLeft, KeyRound, Settings } from "lucide-react"; // Added Settings icon
+import { Upload, BookOpen, Clock, Timer, ArrowLeft, Settings, Library } from "lucide-react"; // Added Settings icon
 import { ThemeToggle } from "@/components/ThemeToggle";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import {
   Dialog,
   DialogContent,
@@ -22,38 +20,29 @@ import ChatAssistant from "@/components/ChatAssistant";
 import MockExam from "@/components/MockExam";
 import ExamCreator from "@/components/ExamCreator";
 import TimedPractice from "@/components/TimedPractice";
+import QuestionBank from "@/components/QuestionBank";
+import ProviderSettings from "@/components/ProviderSettings";
+import CacheSettingsPanel from "@/components/CacheSettingsPanel";
+import BudgetSettingsPanel from "@/components/BudgetSettingsPanel";
+import PromptTemplateSettings from "@/components/PromptTemplateSettings";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Separator } from "@/components/ui/separator";
 import { EnhancedPDFResult } from "@/lib/enhancedPdfProcessor";
-import { GeminiQuestion } from "@/lib/geminiApi"; // Import GeminiQuestion
-
-// Define interface for ExamConfig
-interface ExamConfig {
-  questions?: GeminiQuestion[]; // Optional for timed mode without generated questions
-  timeLimit: number;
-  mode: 'generated' | 'timed';
-}
+import { AIProviderSettings, ExamConfig } from "@/types";
+import { getProviderSetupError, loadProviderSettings, saveProviderSettings } from "@/lib/ai-providers/provider-registry";
 
 const Index = () => {
-  const [currentView, setCurrentView] = useState<'home' | 'creator' | 'generator' | 'chat' | 'exam' | 'timed'>('home');
+  const [currentView, setCurrentView] = useState<'home' | 'creator' | 'generator' | 'chat' | 'exam' | 'timed' | 'bank'>('home');
   const [pdfContent, setPDFContent] = useState<EnhancedPDFResult | null>(null);
   const [examConfig, setExamConfig] = useState<ExamConfig | null>(null); // Apply the interface
-  const [geminiApiKey, setGeminiApiKey] = useState<string>("");
+  // Provider, model and base URL persist in localStorage; the API key stays in sessionStorage
+  const [aiSettings, setAISettings] = useState<AIProviderSettings>(() => loadProviderSettings());
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const isProviderReady = getProviderSetupError(aiSettings) === null;
 
-  // Load API key from sessionStorage on initial component mount
-  useEffect(() => {
-    const storedApiKey = sessionStorage.getItem("geminiApiKey");
-    if (storedApiKey) {
-      setGeminiApiKey(storedApiKey);
-    }
-  }, []);
-
-  const handleApiKeyChangeAndSave = (newKey: string) => {
-    setGeminiApiKey(newKey);
-    if (newKey) {
-      sessionStorage.setItem("geminiApiKey", newKey);
-    } else {
-      sessionStorage.removeItem("geminiApiKey");
-    }
+  const handleAISettingsChangeAndSave = (settings: AIProviderSettings) => {
+    setAISettings(settings);
+    saveProviderSettings(settings);
   };
 
   const handlePDFUpload = (result: EnhancedPDFResult) => {
@@ -84,7 +73,7 @@ const Index = () => {
       case 'generator':
         return (
           <ExamGenerator 
-            apiKey={geminiApiKey}
+            aiSettings={aiSettings}
             content={pdfContent?.fullText || ''} 
             pdfResult={pdfContent}
             // Update onStartExam to receive questions and set them in examConfig
@@ -97,7 +86,7 @@ const Index = () => {
       case 'chat':
         return (
           <ChatAssistant 
-            apiKey={geminiApiKey}
+            aiSettings={aiSettings}
             content={pdfContent?.fullText || ''} 
             pdfResult={pdfContent}
           />
@@ -111,6 +100,15 @@ const Index = () => {
         );
       case 'timed':
         return <TimedPractice onStartPractice={handleStartTimedPractice} />;
+      case 'bank':
+        return (
+          <QuestionBank
+            onStartExam={(questions, timeLimitMinutes) => {
+              setExamConfig({ questions, timeLimit: timeLimitMinutes, mode: 'generated' });
+              setCurrentView('exam');
+            }}
+          />
+        );
       default:
         return (
           <div className="space-y-8">
@@ -134,10 +132,10 @@ const Index = () => {
             </Card>
 
             {/* Features Grid */}
-            <div className="grid md:grid-cols-3 gap-6 mt-12">
+            <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mt-12">
               <Card
-                className={`hover:shadow-lg transition-shadow ${(!geminiApiKey || !pdfContent) ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
-                onClick={() => (geminiApiKey && pdfContent) ? setCurrentView('creator') : null}
+                className={`hover:shadow-lg transition-shadow ${(!isProviderReady || !pdfContent) ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                onClick={() => (isProviderReady && pdfContent) ? setCurrentView('creator') : null}
               >
                 <CardContent className="p-6 text-center space-y-4">
                   <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mx-auto">
@@ -152,8 +150,8 @@ const Index = () => {
               </Card>
 
               <Card
-                className={`hover:shadow-lg transition-shadow ${(!geminiApiKey || !pdfContent) ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
-                onClick={() => (geminiApiKey && pdfContent) ? setCurrentView('chat') : null}
+                className={`hover:shadow-lg transition-shadow ${(!isProviderReady || !pdfContent) ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                onClick={() => (isProviderReady && pdfContent) ? setCurrentView('chat') : null}
               >
                 <CardContent className="p-6 text-center space-y-4">
                   <div className="w-16 h-16 bg-green-100 dark:bg-green-900/30 rounded-full flex items-center justify-center mx-auto">
@@ -161,7 +159,7 @@ const Index = () => {
                   </div>
                   <h3 className="text-xl font-semibold">AI Study Assistant</h3>
                   <p className="text-muted-foreground">Chat with AI about your documents, get explanations, and clarify complex concepts.</p>
-                  <Button disabled={!geminiApiKey || !pdfContent} variant="outline" className="w-full">
+                  <Button disabled={!isProviderReady || !pdfContent} variant="outline" className="w-full">
                     Start Chat
                   </Button>
                 </CardContent>
@@ -183,6 +181,23 @@ const Index = () => {
                   </Button>
                 </CardContent>
               </Card>
+
+              <Card
+                className="hover:shadow-lg transition-shadow cursor-pointer"
+                // Saved questions work offline: no provider or document needed
+                onClick={() => setCurrentView('bank')}
+              >
+                <CardContent className="p-6 text-center space-y-4">
+                  <div className="w-16 h-16 bg-orange-100 dark:bg-orange-900/30 rounded-full flex items-center justify-center mx-auto">
+                    <Library className="w-8 h-8 text-orange-600 dark:text-orange-400" />
+                  </div>
+                  <h3 className="text-xl font-semibold">Question Bank</h3>
+                  <p className="text-muted-foreground">Browse, tag and reuse saved questions to build new exams without generating again.</p>
+                  <Button variant="outline" className="w-full">
+                    Open Bank
+                  </Button>
+                </CardContent>
+              </Card>
             </div>
 
             {pdfContent && (
@@ -233,33 +248,31 @@ const Index = () => {
                   <span className="sr-only">Open Settings</span>
                 </Button>
               </DialogTrigger>
-              <DialogContent className="sm:max-w-md">
+              <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>Settings</DialogTitle>
                   <DialogDescription>
                     Manage your application settings here.
                   </DialogDescription>
                 </DialogHeader>
-                <div className="space-y-4 py-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="gemini-api-key-modal" className="flex items-center">
-                      <KeyRound className="w-4 h-4 mr-2 text-yellow-500" />
-                      Google Gemini API Key
-                    </Label>
-                    <Input
-                      id="gemini-api-key-modal"
-                      type="password"
-                      placeholder="Enter your Gemini API Key"
-                      value={geminiApiKey}
-                      onChange={(e) => handleApiKeyChangeAndSave(e.target.value)}
-                    />
-                     <p className="text-xs text-muted-foreground">
-                      Your API key is stored in your browser's session storage for this session only.
-                      It is sent directly to Google's Gemini API from your browser.
-                      <a href="https://aistudio.google.com/getting-started" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline ml-1">Get an API Key</a>.
-                    </p>
-                  </div>
-                </div>
+                <Tabs defaultValue="provider" className="py-2">
+                  <TabsList className="grid w-full grid-cols-3">
+                    <TabsTrigger value="provider">AI Provider</TabsTrigger>
+                    <TabsTrigger value="prompts">Prompts</TabsTrigger>
+                    <TabsTrigger value="usage">Cache & Budget</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="provider" className="pt-2">
+                    <ProviderSettings settings={aiSettings} onChange={handleAISettingsChangeAndSave} />
+                  </TabsContent>
+                  <TabsContent value="prompts" className="pt-2">
+                    <PromptTemplateSettings chunks={pdfContent?.chunks ?? []} />
+                  </TabsContent>
+                  <TabsContent value="usage" className="pt-2 space-y-6">
+                    <CacheSettingsPanel />
+                    <Separator />
+                    <BudgetSettingsPanel />
+                  </TabsContent>
+                </Tabs>
                 <DialogFooter className="sm:justify-start">
                   <DialogClose asChild>
                     <Button type="button" variant="secondary">
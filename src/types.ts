@@ -33,19 +33,49 @@ export interface EnhancedPDFResult {
     ocrConfidence: number;
     processingTime: number;
     warnings?: string[];
+    fileName?: string; // Name of the uploaded file, used as the question bank's source document
   };
 }
 
 /**
  * Gemini AI Question Types
  */
+export type QuestionType = 'mcq' | 'fillblank' | 'truefalse';
+
+export type Difficulty = 'basic' | 'intermediate' | 'advanced';
+
 export interface GeminiQuestion {
   id: string;
-  type: 'mcq' | 'fillblank' | 'truefalse';
+  type: QuestionType;
   question: string;
   options?: string[];
   answer: string | boolean;
+  correctOptionIndex?: number; // Canonical key for MCQs, index into options
   explanation: string;
+  topic?: string;
+  difficulty?: Difficulty;
+  grounding?: QuestionGrounding; // Where in the document the answer can be verified
+  verification?: QuestionVerification; // Result of the independent answer check, when it ran
+}
+
+export interface QuestionGrounding {
+  quote?: string; // Passage supporting the answer; only kept when it was found in the document
+  chunkIndex?: number; // Source chunk: its index in the document's chunks
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+/**
+ * Answer Verification Types
+ */
+export type VerificationIssue = 'answer_mismatch' | 'ambiguous' | 'unsupported' | 'low_confidence';
+
+export interface QuestionVerification {
+  status: 'verified' | 'flagged' | 'failed'; // 'failed' means the check itself could not run
+  confidence: number | null; // 0–1 confidence that the answer key is right; null when the check failed
+  issues: VerificationIssue[];
+  verifierAnswer?: string; // The answer the verifier arrived at on its own
+  reason: string;
 }
 
 export interface QuestionGenerationRequest {
@@ -53,7 +83,201 @@ export interface QuestionGenerationRequest {
   mcqCount: number;
   fillBlankCount: number;
   trueFalseCount: number;
-  difficulty: 'basic' | 'intermediate' | 'advanced';
+  difficulty: Difficulty;
+  blueprint?: ExamBlueprint; // When set, the blueprint cells replace the global counts
+  chunks?: EnhancedPDFChunk[]; // Document chunks; blueprint topics and question sources are matched against them
+  verifyAnswers?: boolean; // Run a second pass that answers each question against its source and flags disagreements
+}
+
+/**
+ * Exam Blueprint Types
+ */
+export interface BlueprintCell {
+  topic: string;
+  difficulty: Difficulty;
+  type: QuestionType;
+  count: number;
+}
+
+export interface ExamBlueprint {
+  id: string;
+  name: string;
+  cells: BlueprintCell[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface GenerationFailure {
+  type: QuestionType;
+  chunkIndex: number;
+  topic?: string;
+  missing: number; // Questions of this type the chunk still lacked after repair
+  reason: string;
+  errorCode: AIErrorCode; // Type of the error that stopped this chunk
+}
+
+export interface GenerationSummary {
+  requested: number;
+  generated: number;
+  repairAttempts: number;
+  failures: GenerationFailure[];
+  cachedResponses: number; // Requests answered from the response cache instead of the provider
+  cancelled: boolean; // True if the run was aborted; questions completed before that are kept
+  verification?: { verified: number; flagged: number; failed: number }; // Set when answers were verified
+}
+
+export interface QuestionGenerationResult {
+  questions: GeminiQuestion[];
+  summary: GenerationSummary;
+}
+
+/**
+ * Question Review Types
+ */
+export interface ReviewQuestion {
+  question: GeminiQuestion;
+  approved: boolean; // Only approved questions make it into the exam
+  flagged: boolean; // Marked for a closer look at its quality
+}
+
+/**
+ * Question Bank Types
+ */
+export interface QuestionSource {
+  documentName: string;
+  chunkIndex?: number; // Index into the document's chunks
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+export interface QuestionUsageStats {
+  timesUsed: number; // Completed exams the question appeared in
+  timesCorrect: number;
+  timesSkipped: number; // Exams submitted without an answer to it
+  lastUsedAt: number | null;
+}
+
+export interface BankQuestion {
+  id: string;
+  fingerprint: string; // Document, type and normalized text; saving the same question twice updates it
+  question: GeminiQuestion; // Its id matches the bank id, so exam results map back to the bank
+  source: QuestionSource;
+  tags: string[];
+  createdAt: number;
+  stats: QuestionUsageStats;
+}
+
+export interface QuestionBankFilter {
+  search: string;
+  documentName: string | null;
+  type: QuestionType | null;
+  difficulty: Difficulty | null;
+  tag: string | null;
+}
+
+export interface QuestionResult {
+  questionId: string;
+  answered: boolean;
+  correct: boolean;
+}
+
+/**
+ * Exam Session Types
+ */
+export type ExamAnswer = string | boolean | number; // Option index for MCQs, text for fill-blanks, boolean for T/F
+
+export type AnswerStatus = 'correct' | 'incorrect' | 'unanswered';
+
+export interface ExamScore {
+  correct: number;
+  total: number;
+  percentage: number;
+}
+
+export interface ExamConfig {
+  questions?: GeminiQuestion[]; // Optional for timed mode without generated questions
+  timeLimit: number;
+  mode: 'generated' | 'timed';
+}
+
+/**
+ * AI Provider Types
+ */
+export type AIProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export type MockFaultKind = 'none' | 'rate_limited' | 'server_error' | 'safety_block' | 'malformed';
+
+export interface MockProviderOptions {
+  fault: MockFaultKind; // Failure to inject into responses
+  faultRate: number; // Share of requests that fail, 0 to 1, spread evenly over the call sequence
+  latencyMs: number; // Simulated response time
+}
+
+export type SafetyCategory = 'harassment' | 'hate_speech' | 'sexually_explicit' | 'dangerous_content';
+
+export type SafetyThreshold = 'default' | 'block_none' | 'block_only_high' | 'block_medium_and_above' | 'block_low_and_above';
+
+export interface GenerationConfig {
+  temperature: number | null; // null keeps the provider's default
+  topP: number | null;
+  maxOutputTokens: number | null;
+  safety: Record<SafetyCategory, SafetyThreshold>; // Only Gemini exposes per-category thresholds
+}
+
+export interface RequestLimits {
+  concurrency: number; // Requests in flight at once
+  requestsPerMinute: number;
+}
+
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  model: string;
+  baseUrl: string; // API root, e.g. a self-hosted OpenAI-compatible endpoint
+  apiKey: string; // Kept in session storage only
+  generation?: GenerationConfig; // Sampling and safety parameters sent with every request
+  rateLimits?: RequestLimits; // Overrides the provider's default request limits
+  mock?: MockProviderOptions; // Only used by the offline mock provider
+}
+
+export type AIErrorCode =
+  | 'missing_key'
+  | 'invalid_key'
+  | 'quota_exceeded'
+  | 'rate_limited'
+  | 'safety_block'
+  | 'bad_request'
+  | 'model_not_found'
+  | 'server_error'
+  | 'network'
+  | 'malformed_response'
+  | 'parse_failure'
+  | 'unknown';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Structured description of a request, for providers that do not read the prompt (the offline mock)
+export type AIRequestContext =
+  | { task: 'questions'; type: QuestionType; count: number; difficulty: string; content: string; avoid?: string[] }
+  | { task: 'chat'; content: string; question: string }
+  | { task: 'verification'; question: GeminiQuestion; content: string };
+
+export interface AIGenerateOptions {
+  responseSchema?: Record<string, unknown>; // Requests JSON output; providers without schema support fall back to plain JSON mode
+  signal?: AbortSignal;
+  context?: AIRequestContext;
+  history?: ChatTurn[]; // Earlier conversation turns, oldest first; sent before the prompt as role-based messages
+  onPartialText?: (text: string) => void; // Requests a streamed response; called with the full text received so far
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  model: string;
+  generateText: (prompt: string, options?: AIGenerateOptions) => Promise<string>;
+  embedTexts?: (texts: string[], signal?: AbortSignal) => Promise<number[][]>; // One vector per text; absent when the provider has no embedding API
+  listModels: (signal?: AbortSignal) => Promise<string[]>;
 }
 
 /**
@@ -82,21 +306,170 @@ export type ErrorType =
   | 'NO_TEXT_EXTRACTED'
   | 'FILE_TOO_LARGE'
   | 'INVALID_FILE_TYPE'
+  | 'PDF_PROCESSING_FAILED'
   | 'API_KEY_REQUIRED'
+  | 'INVALID_API_KEY'
+  | 'QUOTA_EXCEEDED'
+  | 'RATE_LIMITED'
+  | 'SAFETY_BLOCKED'
+  | 'INVALID_AI_REQUEST'
+  | 'MODEL_NOT_FOUND'
+  | 'AI_SERVICE_UNAVAILABLE'
+  | 'NETWORK_ERROR'
+  | 'MALFORMED_RESPONSE'
+  | 'PARSE_FAILURE'
+  | 'CANCELLED'
   | 'UNKNOWN_ERROR';
 
 export interface UserFacingError {
   message: string;
+  title: string;
   type: ErrorType;
   timestamp: number;
+  retryable: boolean;
+  provider?: AIProviderId; // Set for errors raised by an AI provider
   details?: string;
 }
 
 /**
  * Cache Types
  */
+export type CachedResponseKind = 'questions' | 'chat' | 'verification';
+
 export interface ChunkCacheItem {
-  content: string;
-  timestamp: number;
-  chunks: string[];
+  key: string; // SHA-256 of the filled prompt, provider, model and generation parameters
+  kind: CachedResponseKind;
+  provider: AIProviderId;
+  model: string;
+  response: string;
+  sizeBytes: number;
+  createdAt: number;
+  lastAccessedAt: number;
+  hits: number;
+}
+
+export interface CacheSettings {
+  enabled: boolean;
+  ttlDays: number; // Entries older than this are discarded
+  maxSizeMB: number; // Least recently used entries are evicted above this size
+}
+
+export interface CacheStats {
+  entries: number;
+  sizeBytes: number;
+  hits: number;
+  byKind: Record<CachedResponseKind, number>;
+  oldestCreatedAt: number | null;
+}
+
+/**
+ * Usage & Budget Types
+ */
+export interface ModelPricing {
+  inputPerMillion: number; // USD per million input tokens
+  outputPerMillion: number; // USD per million output tokens
+}
+
+export interface TokenEstimate {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number | null; // null when the model's pricing is unknown
+  exact: boolean; // False while token counts come from the character heuristic
+}
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetSettings {
+  enabled: boolean;
+  limitUSD: number; // Spending limit for the current browser session
+  mode: BudgetMode;
+}
+
+export interface SessionUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  unpricedRequests: number; // Requests to models without known pricing, not included in costUSD
+}
+
+export type BudgetCheck =
+  | { status: 'ok' | 'disabled' }
+  | { status: 'warn' | 'block'; spentUSD: number; limitUSD: number; projectedUSD: number }
+  | { status: 'unknown_cost' };
+
+/**
+ * Prompt Template Types
+ */
+export type PromptTemplateId = 'questions' | 'chat';
+
+export interface PromptVariable {
+  name: string; // Written as {name} in a template
+  description: string;
+  required: boolean;
+}
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  variables: PromptVariable[];
+  defaultTemplate: string;
+}
+
+export interface PromptTemplateVersion {
+  template: string;
+  savedAt: number;
+  isDefault: boolean; // Saved by resetting to the built-in template
+}
+
+export interface StoredPromptTemplate {
+  current: string;
+  history: PromptTemplateVersion[]; // Newest first; includes the current version
+}
+
+export interface PromptTemplateValidation {
+  errors: string[]; // The template cannot be saved
+  warnings: string[];
+}
+
+/**
+ * Retrieval Types
+ */
+export interface RetrievalSettings {
+  topK: number; // Chunks sent with each chat question
+  useEmbeddings: boolean; // Combine BM25 with the provider's embeddings
+}
+
+export interface RetrievedChunk {
+  chunkIndex: number;
+  pageStart: number;
+  pageEnd: number;
+  heading?: string;
+  score: number; // Combined score used for ranking
+  bm25Score: number;
+  embeddingScore?: number; // Cosine similarity, when embeddings were used
+}
+
+export interface RetrievalResult {
+  chunks: RetrievedChunk[]; // In document order
+  content: string; // The retrieved chunks, labelled with their pages, as sent to the model
+  method: 'bm25' | 'hybrid';
+  embeddingError?: string; // Why embeddings were requested but not used
 }
+
+/**
+ * Citation Types
+ */
+export interface ChatCitation {
+  label: string; // As written in the answer, e.g. "[pp. 12–13]"
+  pageStart: number;
+  pageEnd: number;
+  chunkIndices: number[]; // Provided chunks covering the cited pages
+  valid: boolean; // Every cited page was in the chunks given to the model
+}
+
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; citation: ChatCitation };
@@ -1 +1,5 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MOCK_AI?: string; // "true" selects the offline mock AI provider on start
+}